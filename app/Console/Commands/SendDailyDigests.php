@@ -0,0 +1,72 @@
+<?php
+
+namespace App\Console\Commands;
+
+use App\Models\Task;
+use App\Models\User;
+use App\Notifications\DailyDigest;
+use Illuminate\Console\Command;
+
+class SendDailyDigests extends Command
+{
+    /**
+     * The name and signature of the console command.
+     *
+     * @var string
+     */
+    protected $signature = 'tasks:send-digests
+                            {--force : Send to every opted-in user now, whatever their local time}';
+
+    /**
+     * The console command description.
+     *
+     * @var string
+     */
+    protected $description = 'Email opted-in users the tasks they have due today or overdue';
+
+    /**
+     * Execute the console command.
+     *
+     * Run hourly, this reaches each user once a day at the digest hour in
+     * their own time zone. Users with nothing due are not sent an email.
+     */
+    public function handle(): int
+    {
+        $sent = 0;
+
+        User::where('daily_digest', true)->each(function (User $user) use (&$sent) {
+            $now = now($user->timezone);
+            $sentToday = $user->digest_sent_at?->setTimezone($user->timezone)->isSameDay($now);
+
+            if (! $this->option('force') && ($now->hour !== User::DIGEST_HOUR || $sentToday)) {
+                return;
+            }
+
+            $today = $now->toDateString();
+
+            $tasks = Task::with('list')
+                ->whereHas('list', fn ($q) => $q->where('user_id', $user->id))
+                ->where('is_completed', false)
+                ->whereDate('due_date', '<=', $today)
+                ->orderBy('due_date')
+                ->orderBy('due_time')
+                ->orderBy('position')
+                ->get();
+
+            if ($tasks->isEmpty()) {
+                return;
+            }
+
+            [$dueToday, $overdue] = $tasks->partition(fn (Task $task) => $task->due_date->toDateString() === $today);
+
+            $user->notify(new DailyDigest($overdue->values(), $dueToday->values()));
+            $user->forceFill(['digest_sent_at' => now()])->save();
+
+            $sent++;
+        });
+
+        $this->info(trans_choice('{0} No digests sent.|{1} Sent 1 digest.|[2,*] Sent :count digests.', $sent));
+
+        return self::SUCCESS;
+    }
+}
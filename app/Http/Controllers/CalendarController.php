@@ -0,0 +1,79 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use Carbon\CarbonImmutable;
+use Carbon\CarbonInterface;
+use Illuminate\Http\Request;
+use Inertia\Inertia;
+use App\Models\Task;
+
+class CalendarController extends Controller
+{
+    /**
+     * Display the user's tasks on a month, week or agenda calendar.
+     */
+    public function index(Request $request)
+    {
+        $this->authorize('viewAny', Task::class);
+
+        $validated = $request->validate([
+            'view' => 'nullable|in:month,week,agenda',
+            'date' => 'nullable|date',
+        ]);
+
+        $view = $validated['view'] ?? 'month';
+        $today = $request->user()->today();
+        $date = CarbonImmutable::parse($validated['date'] ?? $today->toDateString());
+
+        [$start, $end, $previous, $next] = match ($view) {
+            'month' => [
+                $date->startOfMonth()->startOfWeek(CarbonInterface::SUNDAY),
+                $date->endOfMonth()->endOfWeek(CarbonInterface::SATURDAY),
+                $date->subMonthNoOverflow(),
+                $date->addMonthNoOverflow(),
+            ],
+            'week' => [
+                $date->startOfWeek(CarbonInterface::SUNDAY),
+                $date->endOfWeek(CarbonInterface::SATURDAY),
+                $date->subWeek(),
+                $date->addWeek(),
+            ],
+            'agenda' => [
+                $date->startOfDay(),
+                $date->addDays(29)->endOfDay(),
+                $date->subDays(30),
+                $date->addDays(30),
+            ],
+        };
+
+        $tasks = Task::with(['list', 'tags'])
+            ->whereHas('list', function ($q) use ($request) {
+                $q->where('user_id', $request->user()->id);
+            })
+            ->whereBetween('due_date', [$start->toDateString(), $end->toDateString()])
+            ->orderBy('due_date')
+            ->orderBy('is_completed')
+            ->orderByPriority()
+            ->get();
+
+        return Inertia::render('Calendar/Index', [
+            'tasks' => $tasks,
+            'view' => $view,
+            'date' => $date->toDateString(),
+            'today' => $today->toDateString(),
+            'range' => [
+                'start' => $start->toDateString(),
+                'end' => $end->toDateString(),
+            ],
+            'navigation' => [
+                'previous' => $previous->toDateString(),
+                'next' => $next->toDateString(),
+            ],
+            'flash' => [
+                'success' => session('success'),
+                'error' => session('error'),
+            ]
+        ]);
+    }
+}
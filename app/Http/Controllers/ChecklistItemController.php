@@ -0,0 +1,64 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use Illuminate\Http\Request;
+use App\Models\ChecklistItem;
+use App\Models\Task;
+
+class ChecklistItemController extends Controller
+{
+    /**
+     * Store a newly created resource in storage.
+     */
+    public function store(Request $request, Task $task)
+    {
+        $this->authorize('update', $task);
+
+        $validated = $request->validate([
+            'title' => 'required|string|max:255',
+        ]);
+
+        $task->checklistItems()->create([
+            ...$validated,
+            'position' => $task->checklistItems()->max('position') + 1,
+        ]);
+
+        $task->syncCompletionWithChecklist();
+
+        return back()->with('success', 'Checklist item added successfully.');
+    }
+
+    /**
+     * Update the specified resource in storage.
+     */
+    public function update(Request $request, Task $task, ChecklistItem $checklistItem)
+    {
+        $this->authorize('update', $task);
+
+        $validated = $request->validate([
+            'title' => 'sometimes|required|string|max:255',
+            'is_completed' => 'sometimes|boolean',
+        ]);
+
+        $checklistItem->update($validated);
+
+        $task->syncCompletionWithChecklist();
+
+        return back()->with('success', 'Checklist item updated successfully.');
+    }
+
+    /**
+     * Remove the specified resource from storage.
+     */
+    public function destroy(Task $task, ChecklistItem $checklistItem)
+    {
+        $this->authorize('update', $task);
+
+        $checklistItem->delete();
+
+        $task->syncCompletionWithChecklist();
+
+        return back()->with('success', 'Checklist item deleted successfully.');
+    }
+}
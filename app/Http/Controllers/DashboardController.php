@@ -0,0 +1,85 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Models\Task;
+use App\Models\User;
+use Carbon\CarbonInterface;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Http\Request;
+use Inertia\Inertia;
+
+class DashboardController extends Controller
+{
+    /**
+     * The number of days shown in the completion trend.
+     */
+    protected const TREND_DAYS = 30;
+
+    /**
+     * Display the user's productivity overview.
+     */
+    public function index(Request $request)
+    {
+        $user = $request->user();
+        $today = $user->today();
+
+        $dueToday = $this->tasksFor($user)
+            ->with('list')
+            ->where('is_completed', false)
+            ->whereDate('due_date', $today)
+            ->orderByPriority()
+            ->get();
+
+        $overdueCount = $this->tasksFor($user)
+            ->where('is_completed', false)
+            ->whereDate('due_date', '<', $today)
+            ->count();
+
+        $completedThisWeek = $this->tasksFor($user)
+            ->where('completed_at', '>=', $today->startOfWeek(CarbonInterface::SUNDAY)->utc())
+            ->count();
+
+        $lists = $user->lists()
+            ->withCount([
+                'tasks',
+                'tasks as completed_tasks_count' => fn ($query) => $query->where('is_completed', true),
+            ])
+            ->orderBy('title')
+            ->get(['id', 'title']);
+
+        $trendStart = $today->subDays(self::TREND_DAYS - 1);
+
+        $completions = $this->tasksFor($user)
+            ->where('completed_at', '>=', $trendStart->utc())
+            ->pluck('completed_at')
+            ->countBy(fn ($completedAt) => $completedAt->setTimezone($user->timezone)->toDateString());
+
+        $trend = collect(range(0, self::TREND_DAYS - 1))->map(function ($offset) use ($trendStart, $completions) {
+            $date = $trendStart->copy()->addDays($offset)->toDateString();
+
+            return ['date' => $date, 'count' => $completions->get($date, 0)];
+        });
+
+        return Inertia::render('dashboard', [
+            'dueToday' => $dueToday,
+            'stats' => [
+                'due_today' => $dueToday->count(),
+                'overdue' => $overdueCount,
+                'completed_this_week' => $completedThisWeek,
+            ],
+            'lists' => $lists,
+            'trend' => $trend,
+        ]);
+    }
+
+    /**
+     * Start a query over every task in the user's lists.
+     */
+    protected function tasksFor(User $user): Builder
+    {
+        return Task::whereHas('list', function ($q) use ($user) {
+            $q->where('user_id', $user->id);
+        });
+    }
+}
@@ -4,6 +4,7 @@
 
 use Illuminate\Http\Request;
 use Inertia\Inertia;
+use App\Models\Task;
 use App\Models\TaskList;
 
 class ListController extends Controller
@@ -13,6 +14,8 @@ class ListController extends Controller
      */
     public function index()
     {
+        $this->authorize('viewAny', TaskList::class);
+
         $lists = TaskList::where('user_id', auth()->id())->get();
         return Inertia::render('Lists/Index', [
             'lists' => $lists,
@@ -28,7 +31,7 @@ public function index()
      */
     public function create()
     {
-        //
+        $this->authorize('create', TaskList::class);
     }
 
     /**
@@ -36,6 +39,8 @@ public function create()
      */
     public function store(Request $request)
     {
+        $this->authorize('create', TaskList::class);
+
         $validated = $request->validate([
             'title' => 'required|string|max:255',
             'description' => 'nullable|string',
@@ -52,17 +57,40 @@ public function store(Request $request)
     /**
      * Display the specified resource.
      */
-    public function show(string $id)
+    public function show(Request $request, TaskList $list)
     {
-        //
+        $this->authorize('view', $list);
+
+        $tasks = $list->tasks()
+            ->with(['list', 'checklistItems', 'tags'])
+            ->orderBy('position')
+            ->get();
+
+        $today = $request->user()->today()->toDateString();
+
+        return Inertia::render('Lists/Show', [
+            'list' => $list,
+            'tasks' => $tasks,
+            'stats' => [
+                'total' => $tasks->count(),
+                'completed' => $tasks->where('is_completed', true)->count(),
+                'overdue' => $tasks->filter(fn ($task) => ! $task->is_completed && $task->due_date && $task->due_date->toDateString() < $today)->count(),
+            ],
+            'priorities' => Task::PRIORITIES,
+            'today' => $today,
+            'flash' => [
+                'success' => session('success'),
+                'error' => session('error'),
+            ]
+        ]);
     }
 
     /**
      * Show the form for editing the specified resource.
      */
-    public function edit(string $id)
+    public function edit(TaskList $list)
     {
-        //
+        $this->authorize('update', $list);
     }
 
     /**
@@ -70,6 +98,8 @@ public function edit(string $id)
      */
     public function update(Request $request, TaskList $list)
     {
+        $this->authorize('update', $list);
+
         $validated = $request->validate([
             'title' => 'required|string|max:255',
             'description' => 'nullable|string',
@@ -85,7 +115,9 @@ public function update(Request $request, TaskList $list)
      */
     public function destroy(TaskList $list)
     {
+        $this->authorize('delete', $list);
+
         $list->delete();
-        return redirect()->route('lists.index')->with('success', 'List deleted successfully.');
+        return redirect()->route('lists.index')->with('success', 'List moved to trash.');
     }
 }
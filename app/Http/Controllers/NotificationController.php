@@ -0,0 +1,30 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use Illuminate\Http\Request;
+
+class NotificationController extends Controller
+{
+    /**
+     * Open the task a notification is about, marking it as read.
+     */
+    public function show(Request $request, string $notification)
+    {
+        $notification = $request->user()->notifications()->findOrFail($notification);
+
+        $notification->markAsRead();
+
+        return redirect()->route('tasks.show', $notification->data['task_id']);
+    }
+
+    /**
+     * Mark all of the current user's notifications as read.
+     */
+    public function read(Request $request)
+    {
+        $request->user()->unreadNotifications->markAsRead();
+
+        return back();
+    }
+}
@@ -0,0 +1,43 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use Illuminate\Http\Request;
+use App\Models\SavedView;
+use App\Support\TaskFilters;
+
+class SavedViewController extends Controller
+{
+    /**
+     * Save the current task filters as a named view.
+     */
+    public function store(Request $request)
+    {
+        $this->authorize('create', SavedView::class);
+
+        $validated = $request->validate([
+            'name' => 'required|string|max:50',
+            'filters' => 'nullable|array',
+            ...TaskFilters::rules('filters.'),
+        ]);
+
+        $request->user()->savedViews()->create([
+            'name' => $validated['name'],
+            'filters' => TaskFilters::compact($validated['filters'] ?? []),
+        ]);
+
+        return back()->with('success', 'View saved.');
+    }
+
+    /**
+     * Remove the specified resource from storage.
+     */
+    public function destroy(SavedView $view)
+    {
+        $this->authorize('delete', $view);
+
+        $view->delete();
+
+        return back()->with('success', 'View deleted.');
+    }
+}
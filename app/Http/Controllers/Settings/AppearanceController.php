@@ -0,0 +1,32 @@
+<?php
+
+namespace App\Http\Controllers\Settings;
+
+use App\Http\Controllers\Controller;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Inertia\Inertia;
+use Inertia\Response;
+
+class AppearanceController extends Controller
+{
+    /**
+     * Show the user's appearance settings page.
+     */
+    public function edit(): Response
+    {
+        return Inertia::render('settings/appearance');
+    }
+
+    /**
+     * Update the user's interface preferences.
+     */
+    public function update(Request $request): RedirectResponse
+    {
+        $request->user()->update($request->validate([
+            'keyboard_shortcuts' => 'required|boolean',
+        ]));
+
+        return to_route('appearance.edit');
+    }
+}
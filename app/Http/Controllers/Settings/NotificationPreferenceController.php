@@ -0,0 +1,36 @@
+<?php
+
+namespace App\Http\Controllers\Settings;
+
+use App\Http\Controllers\Controller;
+use App\Models\User;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Inertia\Inertia;
+use Inertia\Response;
+
+class NotificationPreferenceController extends Controller
+{
+    /**
+     * Show the user's email notification settings page.
+     */
+    public function edit(): Response
+    {
+        return Inertia::render('settings/notifications', [
+            'digestHour' => User::DIGEST_HOUR,
+        ]);
+    }
+
+    /**
+     * Update which emails the user receives.
+     */
+    public function update(Request $request): RedirectResponse
+    {
+        $request->user()->update($request->validate([
+            'daily_digest' => 'sometimes|required|boolean',
+            'email_reminders' => 'sometimes|required|boolean',
+        ]));
+
+        return to_route('notification-preferences.edit');
+    }
+}
@@ -0,0 +1,82 @@
+<?php
+
+namespace App\Http\Controllers\Settings;
+
+use App\Http\Controllers\Controller;
+use App\Models\Tag;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Illuminate\Validation\Rule;
+use Inertia\Inertia;
+use Inertia\Response;
+
+class TagController extends Controller
+{
+    /**
+     * Show the user's tag settings page.
+     */
+    public function index(Request $request): Response
+    {
+        $this->authorize('viewAny', Tag::class);
+
+        return Inertia::render('settings/tags', [
+            'tags' => $request->user()->tags()->withCount('tasks')->orderBy('name')->get(),
+        ]);
+    }
+
+    /**
+     * Create a new tag.
+     */
+    public function store(Request $request): RedirectResponse
+    {
+        $this->authorize('create', Tag::class);
+
+        $request->user()->tags()->create($request->validate($this->rules($request)));
+
+        return to_route('tags.index');
+    }
+
+    /**
+     * Rename or recolour a tag.
+     */
+    public function update(Request $request, Tag $tag): RedirectResponse
+    {
+        $this->authorize('update', $tag);
+
+        $tag->update($request->validate($this->rules($request, $tag)));
+
+        return to_route('tags.index');
+    }
+
+    /**
+     * Delete a tag and detach it from every task.
+     */
+    public function destroy(Tag $tag): RedirectResponse
+    {
+        $this->authorize('delete', $tag);
+
+        $tag->delete();
+
+        return to_route('tags.index');
+    }
+
+    /**
+     * Get the validation rules for a tag.
+     *
+     * @return array<string, mixed>
+     */
+    protected function rules(Request $request, ?Tag $tag = null): array
+    {
+        return [
+            'name' => [
+                'required',
+                'string',
+                'max:50',
+                Rule::unique(Tag::class)
+                    ->where('user_id', $request->user()->id)
+                    ->ignore($tag?->id),
+            ],
+            'color' => ['required', 'string', 'regex:/^#[0-9a-fA-F]{6}$/'],
+        ];
+    }
+}
@@ -3,46 +3,70 @@
 namespace App\Http\Controllers;
 
 use Illuminate\Http\Request;
+use Illuminate\Support\Arr;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Validation\Rule;
 use Inertia\Inertia;
+use App\Models\Reminder;
+use App\Models\Tag;
 use App\Models\TaskList;
 use App\Models\Task;
+use App\Support\QuickAdd;
+use App\Support\Recurrence;
+use App\Support\TaskFilters;
+use App\Support\TaskQuery;
+use App\Support\TaskUndo;
 
 class TaskController extends Controller
 {
     /**
      * Display a listing of the resource.
      */
-    public function index()
+    public function index(Request $request)
     {
+        $this->authorize('viewAny', Task::class);
+
+        $filters = TaskFilters::normalize($request->validate(TaskFilters::rules()));
+        $search = TaskQuery::parse($filters['search']);
+
         $userId = auth()->id();
 
-        $query = Task::with('list')
+        $query = Task::with(['list', 'checklistItems', 'tags', 'reminders'])
+            ->withCount('completedOccurrences')
             ->whereHas('list', function ($q) use ($userId) {
                 $q->where('user_id', $userId);
-            })
-            ->orderBy('created_at', 'desc');
-
-        if (request()->has('search')) {
-            $search = request('search');
-            $query->where(function ($q) use ($search) {
-                $q->where('title', 'like', "%{$search}%")
-                    ->orWhere('description', 'like', "%{$search}%");
             });
-        }
 
-        if (request()->has('filter') && request('filter') != 'all') {
-            $query->where('is_completed', request('filter') === 'completed');
-        }
+        TaskFilters::apply($query, $filters, $request->user()->today());
+        TaskFilters::sort($query, $filters);
+
+        $user = request()->user();
+        $board = $user->task_view === 'board' ? (clone $query)->get() : [];
 
         $tasks = $query->paginate(10);
         $lists = TaskList::where('user_id', $userId)->get();
+        $tags = Tag::where('user_id', $userId)->orderBy('name')->get();
         return Inertia::render('Tasks/Index', [
             'tasks' => $tasks,
+            'board' => $board,
             'lists' => $lists,
-            'filters' => [
-                'search' => request('search'),
-                'filter' => request('filter'),
+            'tags' => $tags,
+            'statuses' => Task::STATUSES,
+            'priorities' => Task::PRIORITIES,
+            'dueWindows' => Task::DUE_WINDOWS,
+            'reminderPresets' => Reminder::PRESETS,
+            'view' => [
+                'mode' => $user->task_view,
+                'group' => $user->task_board_group,
+            ],
+            'filters' => $filters,
+            'query' => [
+                'keys' => TaskQuery::KEYS,
+                'states' => TaskQuery::STATES,
+                'errors' => $search->errors,
+                'words' => $search->words(),
             ],
+            'undo' => TaskUndo::pending(),
             'flash' => [
                 'success' => session('success'),
                 'error' => session('error'),
@@ -55,59 +79,273 @@ public function index()
      */
     public function create()
     {
-        //
+        $this->authorize('create', Task::class);
     }
 
     /**
      * Store a newly created resource in storage.
+     *
+     * When posted to a list's nested route the task is scoped to that list
+     * and the user is returned to the list page.
      */
-    public function store(Request $request)
+    public function store(Request $request, ?TaskList $list = null)
     {
+        $this->authorize('create', Task::class);
+
+        if ($list) {
+            $this->authorize('update', $list);
+
+            $request->merge(['list_id' => $list->id]);
+        }
+
         $validated = $request->validate([
             'title' => 'required|string|max:255',
             'description' => 'nullable|string',
             'due_date' => 'nullable|date',
-            'list_id' => 'required|exists:lists,id',
-            'is_completed' => 'boolean'
+            'due_time' => 'nullable|date_format:H:i',
+            'list_id' => ['required', $this->ownedListRule($request)],
+            'priority' => ['sometimes', Rule::in(Task::PRIORITIES)],
+            'is_completed' => 'boolean',
+            'auto_complete' => 'boolean',
+            ...Recurrence::rules(),
+            'tag_ids' => 'sometimes|array',
+            'tag_ids.*' => [$this->ownedTagRule($request)],
+            ...$this->reminderRules(),
         ]);
 
-        Task::create($validated);
+        $task = Task::create(Arr::except($validated, ['tag_ids', 'reminders']));
+
+        if (isset($validated['tag_ids'])) {
+            $task->tags()->sync($validated['tag_ids']);
+        }
+
+        if (isset($validated['reminders'])) {
+            $task->syncReminders($validated['reminders']);
+        }
+
+        if ($list) {
+            return redirect()->route('lists.show', $list)->with('success', 'Task created successfully.');
+        }
 
         return redirect()->route('tasks.index')->with('success', 'Task created successfully.');
     }
 
+    /**
+     * Preview the task a quick-add line would create.
+     */
+    public function parse(Request $request)
+    {
+        $this->authorize('create', Task::class);
+
+        $validated = $request->validate([
+            'text' => 'nullable|string|max:255',
+        ]);
+
+        $lists = TaskList::where('user_id', auth()->id())->pluck('title', 'id')->all();
+
+        return response()->json(
+            QuickAdd::parse($validated['text'] ?? '', $lists, $request->user()->today())->toArray(),
+        );
+    }
+
     /**
      * Display the specified resource.
      */
-    public function show(string $id)
+    public function show(Task $task)
     {
-        //
+        $this->authorize('view', $task);
+
+        $task->load(['list', 'checklistItems', 'tags', 'reminders'])
+            ->loadCount('completedOccurrences');
+
+        return Inertia::render('Tasks/Show', [
+            'task' => $task,
+            'flash' => [
+                'success' => session('success'),
+                'error' => session('error'),
+            ]
+        ]);
     }
 
     /**
      * Show the form for editing the specified resource.
      */
-    public function edit(string $id)
+    public function edit(Task $task)
     {
-        //
+        $this->authorize('update', $task);
     }
 
     /**
      * Update the specified resource in storage.
+     *
+     * Only the fields that are sent are changed, so inline edits can patch
+     * a single field without resending the rest of the task.
      */
     public function update(Request $request, Task $task)
     {
+        $this->authorize('update', $task);
+
         $validated = $request->validate([
-            'title' => 'required|string|max:255',
+            'title' => 'sometimes|required|string|max:255',
             'description' => 'nullable|string',
             'due_date' => 'nullable|date',
-            'list_id' => 'required|exists:lists,id',
-            'is_completed' => 'boolean'
+            'due_time' => 'nullable|date_format:H:i',
+            'list_id' => ['sometimes', 'required', $this->ownedListRule($request)],
+            'priority' => ['sometimes', Rule::in(Task::PRIORITIES)],
+            'is_completed' => 'boolean',
+            'auto_complete' => 'boolean',
+            ...Recurrence::rules(),
+            'tag_ids' => 'sometimes|array',
+            'tag_ids.*' => [$this->ownedTagRule($request)],
+            ...$this->reminderRules(),
+        ]);
+
+        $snapshot = TaskUndo::snapshot([$task]);
+
+        $task->update(Arr::except($validated, ['tag_ids', 'reminders']));
+
+        if (isset($validated['tag_ids'])) {
+            $task->tags()->sync($validated['tag_ids']);
+        }
+
+        if (isset($validated['reminders'])) {
+            $task->syncReminders($validated['reminders']);
+        }
+
+        if ($task->wasChanged('auto_complete')) {
+            $task->syncCompletionWithChecklist();
+        }
+
+        if ($task->wasChanged('is_completed')) {
+            TaskUndo::remember($task->is_completed ? 'Task completed.' : 'Task reopened.', $snapshot);
+        } elseif ($task->wasChanged('list_id')) {
+            TaskUndo::remember('Task moved.', $snapshot);
+        }
+
+        return back()->with('success', 'Task updated successfully.');
+    }
+
+    /**
+     * Move the task to another board column or calendar day.
+     */
+    public function move(Request $request, Task $task)
+    {
+        $this->authorize('update', $task);
+
+        $validated = $request->validate([
+            'list_id' => ['required_without_all:status,due_date', $this->ownedListRule($request)],
+            'status' => ['required_without_all:list_id,due_date', Rule::in(Task::STATUSES)],
+            'due_date' => 'sometimes|nullable|date',
         ]);
 
+        $snapshot = TaskUndo::snapshot([$task]);
+
         $task->update($validated);
 
-        return redirect()->route('tasks.index')->with('success', 'Task updated successfully.');
+        TaskUndo::remember($task->wasChanged('is_completed') && $task->is_completed ? 'Task completed.' : 'Task moved.', $snapshot);
+
+        return back()->with('success', 'Task moved successfully.');
+    }
+
+    /**
+     * Drop the task between two neighbours in its list.
+     */
+    public function reorder(Request $request, Task $task)
+    {
+        $this->authorize('update', $task);
+
+        $neighbour = Rule::exists('tasks', 'id')
+            ->where('list_id', $task->list_id)
+            ->whereNull('deleted_at');
+
+        $validated = $request->validate([
+            'previous_id' => ['nullable', 'required_without:next_id', 'different:next_id', $neighbour],
+            'next_id' => ['nullable', 'required_without:previous_id', $neighbour],
+        ]);
+
+        $snapshot = TaskUndo::snapshot([$task]);
+
+        $task->moveBetween(
+            isset($validated['previous_id']) ? Task::find($validated['previous_id']) : null,
+            isset($validated['next_id']) ? Task::find($validated['next_id']) : null,
+        );
+
+        TaskUndo::remember('Task reordered.', $snapshot);
+
+        return back();
+    }
+
+    /**
+     * Apply one action to a selection of tasks at once.
+     */
+    public function batch(Request $request)
+    {
+        $validated = $request->validate([
+            'ids' => 'required|array|min:1',
+            'ids.*' => 'integer|distinct',
+            'action' => 'required|in:complete,reopen,move,due_date,tag,delete',
+            'list_id' => ['required_if:action,move', $this->ownedListRule($request)],
+            'due_date' => 'exclude_unless:action,due_date|nullable|date',
+            'tag_id' => ['required_if:action,tag', $this->ownedTagRule($request)],
+        ]);
+
+        $tasks = Task::with('list')->whereKey($validated['ids'])->get();
+
+        abort_if($tasks->count() !== count($validated['ids']), 404);
+
+        $tasks->each(fn (Task $task) => $this->authorize(
+            $validated['action'] === 'delete' ? 'delete' : 'update',
+            $task,
+        ));
+
+        $snapshot = TaskUndo::snapshot($tasks);
+
+        DB::transaction(function () use ($tasks, $validated) {
+            foreach ($tasks as $task) {
+                match ($validated['action']) {
+                    'complete' => $task->update(['is_completed' => true]),
+                    'reopen' => $task->update(['is_completed' => false]),
+                    'move' => $task->update(['list_id' => $validated['list_id']]),
+                    'due_date' => $task->update(['due_date' => $validated['due_date'] ?? null]),
+                    'tag' => $task->tags()->syncWithoutDetaching([$validated['tag_id']]),
+                    'delete' => $task->delete(),
+                };
+            }
+        });
+
+        $message = trans_choice(match ($validated['action']) {
+            'complete' => '{1} Task completed.|[2,*] :count tasks completed.',
+            'reopen' => '{1} Task reopened.|[2,*] :count tasks reopened.',
+            'move' => '{1} Task moved.|[2,*] :count tasks moved.',
+            'due_date' => '{1} Task rescheduled.|[2,*] :count tasks rescheduled.',
+            'tag' => '{1} Task tagged.|[2,*] :count tasks tagged.',
+            'delete' => '{1} Task moved to trash.|[2,*] :count tasks moved to trash.',
+        }, $tasks->count());
+
+        // Tags are not in the snapshot, so tagging cannot be undone; drop the
+        // pending undo so the toast does not revert an older change instead.
+        if ($validated['action'] === 'tag') {
+            TaskUndo::forget();
+        } else {
+            TaskUndo::remember($message, $snapshot);
+        }
+
+        return back()->with('success', $message);
+    }
+
+    /**
+     * Remember how the current user prefers to browse their tasks.
+     */
+    public function updateView(Request $request)
+    {
+        $validated = $request->validate([
+            'task_view' => 'sometimes|in:list,board',
+            'task_board_group' => 'sometimes|in:list,status',
+        ]);
+
+        $request->user()->update($validated);
+
+        return back();
     }
 
     /**
@@ -115,7 +353,62 @@ public function update(Request $request, Task $task)
      */
     public function destroy(Task $task)
     {
+        $this->authorize('delete', $task);
+
+        $snapshot = TaskUndo::snapshot([$task]);
+
         $task->delete();
-        return redirect()->route('tasks.index')->with('success', 'Task deleted successfully.');
+
+        TaskUndo::remember('Task moved to trash.', $snapshot);
+
+        // The task's own page is gone, so only that page leaves for the index.
+        if (url()->previous() === route('tasks.show', $task)) {
+            return redirect()->route('tasks.index')->with('success', 'Task moved to trash.');
+        }
+
+        return back()->with('success', 'Task moved to trash.');
+    }
+
+    /**
+     * Reverse the last delete, completion or move while it is still recent.
+     */
+    public function undo(Request $request)
+    {
+        if (! TaskUndo::revert($request->user())) {
+            return back()->with('error', 'There is nothing left to undo.');
+        }
+
+        return back()->with('success', 'Change undone.');
+    }
+
+    /**
+     * Only allow tasks to be placed in one of the current user's lists.
+     */
+    protected function ownedListRule(Request $request)
+    {
+        return Rule::exists('lists', 'id')
+            ->where('user_id', $request->user()->id)
+            ->whereNull('deleted_at');
+    }
+
+    /**
+     * Only allow the current user's own tags to be attached.
+     */
+    protected function ownedTagRule(Request $request)
+    {
+        return Rule::exists('tags', 'id')->where('user_id', $request->user()->id);
+    }
+
+    /**
+     * Reminders are sent as a whole, each as the minutes before the task is due.
+     *
+     * @return array<string, mixed>
+     */
+    protected function reminderRules(): array
+    {
+        return [
+            'reminders' => 'sometimes|array|max:'.Reminder::MAX_PER_TASK,
+            'reminders.*' => 'integer|distinct|min:0|max:'.Reminder::MAX_MINUTES_BEFORE,
+        ];
     }
 }
@@ -0,0 +1,116 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\DB;
+use Inertia\Inertia;
+use App\Models\Task;
+use App\Models\TaskList;
+
+class TrashController extends Controller
+{
+    /**
+     * Display the user's trashed tasks and lists.
+     */
+    public function index(Request $request)
+    {
+        $user = $request->user();
+
+        $tasks = Task::onlyTrashed()
+            ->with('list')
+            ->whereHas('list', function ($q) use ($user) {
+                $q->where('user_id', $user->id);
+            })
+            ->latest('deleted_at')
+            ->get();
+
+        $lists = $user->lists()
+            ->onlyTrashed()
+            ->withCount('tasks')
+            ->latest('deleted_at')
+            ->get();
+
+        return Inertia::render('Trash/Index', [
+            'tasks' => $tasks,
+            'lists' => $lists,
+            'retentionDays' => config('tasks.trash_retention_days'),
+            'flash' => [
+                'success' => session('success'),
+                'error' => session('error'),
+            ]
+        ]);
+    }
+
+    /**
+     * Restore a trashed task.
+     */
+    public function restoreTask(Task $task)
+    {
+        $this->authorize('restore', $task);
+        abort_unless($task->trashed(), 404);
+
+        $task->restore();
+
+        return back()->with('success', 'Task restored successfully.');
+    }
+
+    /**
+     * Permanently delete a trashed task.
+     */
+    public function purgeTask(Task $task)
+    {
+        $this->authorize('forceDelete', $task);
+        abort_unless($task->trashed(), 404);
+
+        $task->forceDelete();
+
+        return back()->with('success', 'Task permanently deleted.');
+    }
+
+    /**
+     * Restore a trashed list along with the tasks it still holds.
+     */
+    public function restoreList(TaskList $list)
+    {
+        $this->authorize('restore', $list);
+        abort_unless($list->trashed(), 404);
+
+        $list->restore();
+
+        return back()->with('success', 'List restored successfully.');
+    }
+
+    /**
+     * Permanently delete a trashed list and all of its tasks.
+     */
+    public function purgeList(TaskList $list)
+    {
+        $this->authorize('forceDelete', $list);
+        abort_unless($list->trashed(), 404);
+
+        $list->forceDelete();
+
+        return back()->with('success', 'List permanently deleted.');
+    }
+
+    /**
+     * Permanently delete everything in the user's trash.
+     */
+    public function empty(Request $request)
+    {
+        $user = $request->user();
+
+        DB::transaction(function () use ($user) {
+            Task::onlyTrashed()
+                ->whereHas('list', function ($q) use ($user) {
+                    $q->where('user_id', $user->id);
+                })
+                ->forceDelete();
+
+            $user->lists()->onlyTrashed()->forceDelete();
+        });
+
+        return back()->with('success', 'Trash emptied.');
+    }
+}
@@ -2,8 +2,13 @@
 
 namespace App\Http\Middleware;
 
+use App\Models\SavedView;
+use App\Models\Task;
+use App\Models\User;
+use App\Support\TaskFilters;
 use Illuminate\Foundation\Inspiring;
 use Illuminate\Http\Request;
+use Inertia\Inertia;
 use Inertia\Middleware;
 
 class HandleInertiaRequests extends Middleware
@@ -17,6 +22,16 @@ class HandleInertiaRequests extends Middleware
      */
     protected $rootView = 'app';
 
+    /**
+     * The most tasks the command palette searches through.
+     */
+    protected const PALETTE_TASKS = 500;
+
+    /**
+     * The most unread notifications shown under the bell.
+     */
+    protected const UNREAD_NOTIFICATIONS = 10;
+
     /**
      * Determines the current asset version.
      *
@@ -46,6 +61,67 @@ public function share(Request $request): array
                 'user' => $request->user(),
             ],
             'sidebarOpen' => ! $request->hasCookie('sidebar_state') || $request->cookie('sidebar_state') === 'true',
+            'views' => fn () => $request->user() ? $this->views($request->user()) : [],
+            'notifications' => fn () => $request->user()
+                ? $request->user()->unreadNotifications()->limit(self::UNREAD_NOTIFICATIONS)->get(['id', 'data', 'created_at'])
+                : [],
+            'palette' => Inertia::optional(fn () => $request->user() ? $this->palette($request->user()) : null),
         ];
     }
+
+    /**
+     * Gather the lists and tasks the command palette searches, loaded only
+     * once the palette is opened.
+     *
+     * @return array<string, mixed>
+     */
+    protected function palette(User $user): array
+    {
+        return [
+            'lists' => $user->lists()->orderBy('title')->get(['id', 'title']),
+            'tasks' => Task::with('list:id,title')
+                ->whereHas('list', fn ($q) => $q->where('user_id', $user->id))
+                ->orderBy('is_completed')
+                ->latest('updated_at')
+                ->limit(self::PALETTE_TASKS)
+                ->get(['id', 'title', 'is_completed', 'list_id']),
+        ];
+    }
+
+    /**
+     * Build the smart and saved task views pinned in the sidebar, each with
+     * the number of tasks it currently matches.
+     *
+     * @return list<array<string, mixed>>
+     */
+    protected function views(User $user): array
+    {
+        $smart = collect(SavedView::SMART_VIEWS)
+            ->map(fn ($view, $key) => ['id' => null, 'key' => $key, ...$view])
+            ->values();
+
+        $saved = $user->savedViews()
+            ->orderBy('name')
+            ->get()
+            ->map(fn (SavedView $view) => [
+                'id' => $view->id,
+                'key' => "view-{$view->id}",
+                'name' => $view->name,
+                'filters' => $view->filters,
+            ]);
+
+        return $smart->concat($saved)
+            ->map(fn ($view) => [
+                'id' => $view['id'],
+                'key' => $view['key'],
+                'name' => $view['name'],
+                'href' => route('tasks.index', $view['filters'], false),
+                'count' => TaskFilters::apply(
+                    Task::whereHas('list', fn ($q) => $q->where('user_id', $user->id)),
+                    $view['filters'],
+                    $user->today(),
+                )->count(),
+            ])
+            ->all();
+    }
 }
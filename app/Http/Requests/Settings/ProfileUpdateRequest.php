@@ -27,6 +27,8 @@ public function rules(): array
                 'max:255',
                 Rule::unique(User::class)->ignore($this->user()->id),
             ],
+
+            'timezone' => ['sometimes', 'required', 'string', 'timezone:all'],
         ];
     }
 }
@@ -0,0 +1,42 @@
+<?php
+
+namespace App\Jobs;
+
+use App\Models\Reminder;
+use App\Notifications\TaskReminder;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Foundation\Queue\Queueable;
+use Illuminate\Support\Collection;
+
+/**
+ * Send every reminder whose time has come. The scheduler queues this each
+ * minute, so the sending itself happens on a queue worker.
+ */
+class SendDueReminders implements ShouldQueue
+{
+    use Queueable;
+
+    /**
+     * Execute the job.
+     */
+    public function handle(): void
+    {
+        Reminder::due()
+            ->with('task.list.user')
+            ->chunkById(100, function (Collection $reminders) {
+                foreach ($reminders as $reminder) {
+                    // Claiming the reminder first stops a run that overlaps
+                    // this one from sending it as well.
+                    $claimed = Reminder::whereKey($reminder->getKey())
+                        ->whereNull('sent_at')
+                        ->update(['sent_at' => now()]);
+
+                    if ($claimed) {
+                        $reminder->task->list->user->notify(
+                            new TaskReminder($reminder->task, $reminder->minutes_before),
+                        );
+                    }
+                }
+            });
+    }
+}
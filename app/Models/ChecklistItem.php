@@ -0,0 +1,35 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class ChecklistItem extends Model
+{
+    /** @use HasFactory<\Database\Factories\ChecklistItemFactory> */
+    use HasFactory;
+
+    protected $fillable = [
+        'title',
+        'is_completed',
+        'position',
+    ];
+
+    protected $attributes = [
+        'is_completed' => false,
+    ];
+
+    protected function casts(): array
+    {
+        return [
+            'is_completed' => 'boolean',
+        ];
+    }
+
+    public function task(): BelongsTo
+    {
+        return $this->belongsTo(Task::class);
+    }
+}
@@ -0,0 +1,72 @@
+<?php
+
+namespace App\Models;
+
+use Carbon\CarbonImmutable;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class Reminder extends Model
+{
+    /**
+     * The reminders offered in the task form, in minutes before the task is
+     * due: at the time, 10 minutes, an hour, a day and a week ahead.
+     *
+     * @var list<int>
+     */
+    public const PRESETS = [0, 10, 60, 1440, 10080];
+
+    /**
+     * The furthest ahead of a task a reminder may go off: four weeks.
+     */
+    public const MAX_MINUTES_BEFORE = 40320;
+
+    /**
+     * The most reminders a single task may have.
+     */
+    public const MAX_PER_TASK = 5;
+
+    protected $fillable = [
+        'minutes_before',
+    ];
+
+    protected function casts(): array
+    {
+        return [
+            'minutes_before' => 'integer',
+            'remind_at' => 'datetime',
+            'sent_at' => 'datetime',
+        ];
+    }
+
+    /**
+     * Work out when the reminder goes off for a task due at the given time.
+     *
+     * Moving a reminder into the future arms it again, while one whose time
+     * has already passed is not sent a second time.
+     */
+    public function reschedule(?CarbonImmutable $dueAt): void
+    {
+        $this->remind_at = $dueAt?->subMinutes($this->minutes_before);
+
+        if ($this->remind_at?->isFuture()) {
+            $this->sent_at = null;
+        }
+    }
+
+    /**
+     * Limit reminders to those that should go off now for open tasks.
+     */
+    public function scopeDue(Builder $query): void
+    {
+        $query->whereNull('sent_at')
+            ->where('remind_at', '<=', now())
+            ->whereHas('task', fn ($q) => $q->where('is_completed', false)->whereHas('list'));
+    }
+
+    public function task(): BelongsTo
+    {
+        return $this->belongsTo(Task::class);
+    }
+}
@@ -0,0 +1,50 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class SavedView extends Model
+{
+    /**
+     * The smart views every user has, pinned above their own saved views.
+     *
+     * @var array<string, array{name: string, filters: array<string, string>}>
+     */
+    public const SMART_VIEWS = [
+        'today' => [
+            'name' => 'Today',
+            'filters' => ['filter' => 'pending', 'due' => 'today'],
+        ],
+        'upcoming' => [
+            'name' => 'Upcoming',
+            'filters' => ['filter' => 'pending', 'due' => 'upcoming', 'sort' => 'due_date'],
+        ],
+        'overdue' => [
+            'name' => 'Overdue',
+            'filters' => ['due' => 'overdue', 'sort' => 'due_date'],
+        ],
+        'completed' => [
+            'name' => 'Completed',
+            'filters' => ['filter' => 'completed', 'sort' => 'updated'],
+        ],
+    ];
+
+    protected $fillable = [
+        'name',
+        'filters',
+    ];
+
+    protected function casts(): array
+    {
+        return [
+            'filters' => 'array',
+        ];
+    }
+
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+}
@@ -2,21 +2,395 @@
 
 namespace App\Models;
 
+use App\Support\Recurrence;
+use Carbon\CarbonImmutable;
+use Carbon\CarbonInterface;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Database\Eloquent\Casts\Attribute;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
 use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Prunable;
 use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\BelongsToMany;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+use Illuminate\Database\Eloquent\SoftDeletes;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Str;
 
 class Task extends Model
 {
+    /** @use HasFactory<\Database\Factories\TaskFactory> */
+    use HasFactory, Prunable, SoftDeletes;
+
+    /**
+     * The workflow states a task can move through on the board.
+     *
+     * @var list<string>
+     */
+    public const STATUSES = ['todo', 'in_progress', 'done'];
+
+    /**
+     * The priority levels, from least to most important.
+     *
+     * @var list<string>
+     */
+    public const PRIORITIES = ['none', 'low', 'medium', 'high', 'urgent'];
+
+    /**
+     * The named due-date windows tasks can be filtered by.
+     *
+     * @var list<string>
+     */
+    public const DUE_WINDOWS = ['overdue', 'today', 'week', 'upcoming', 'none'];
+
+    /**
+     * The spacing left between neighbouring positions in a list, so a task
+     * can usually be dropped between two others by updating only itself.
+     */
+    public const POSITION_GAP = 1024;
+
+    /**
+     * The time of day a task without a due time falls due, which its
+     * reminders are counted back from.
+     */
+    public const DEFAULT_DUE_TIME = '09:00';
+
     protected $fillable = [
         'title',
         'description',
         'is_completed',
+        'auto_complete',
+        'status',
+        'priority',
         'due_date',
-        'list_id'
+        'due_time',
+        'recurrence',
+        'list_id',
+        'position'
     ];
 
+    protected $attributes = [
+        'is_completed' => false,
+        'auto_complete' => false,
+        'status' => 'todo',
+        'priority' => 'none',
+    ];
+
+    protected function casts(): array
+    {
+        return [
+            'is_completed' => 'boolean',
+            'auto_complete' => 'boolean',
+            'completed_at' => 'datetime',
+            'due_date' => 'date:Y-m-d',
+            'recurrence' => 'array',
+            'position' => 'float',
+        ];
+    }
+
+    /**
+     * Keep the completion flag, completion time and workflow status in step.
+     */
+    protected static function booted(): void
+    {
+        static::saving(function (Task $task) {
+            $statusChanged = $task->isDirty('status');
+            $completionChanged = $task->isDirty('is_completed');
+
+            if ($statusChanged && $completionChanged) {
+                $done = $task->is_completed || $task->status === 'done';
+                $task->is_completed = $done;
+                $task->status = $done ? 'done' : $task->status;
+            } elseif ($statusChanged) {
+                $task->is_completed = $task->status === 'done';
+            } elseif ($completionChanged) {
+                $task->status = $task->is_completed
+                    ? 'done'
+                    : ($task->status === 'done' ? 'todo' : $task->status);
+            }
+
+            if ($task->isDirty('is_completed')) {
+                $task->completed_at = $task->is_completed
+                    ? ($task->completed_at ?? now())
+                    : null;
+            }
+
+            // Tasks arriving in a list go to the top unless placed explicitly.
+            if ($task->isDirty('list_id') && ! $task->isDirty('position')) {
+                $top = static::where('list_id', $task->list_id)
+                    ->when($task->exists, fn ($q) => $q->whereKeyNot($task->getKey()))
+                    ->min('position');
+
+                $task->position = ($top ?? 0) - self::POSITION_GAP;
+            }
+
+            if ($task->recurrence) {
+                $task->recurrence = Recurrence::fromArray($task->recurrence)
+                    ->anchoredTo($task->due_date ?? now())
+                    ->toArray();
+                $task->series_id ??= (string) Str::uuid();
+            }
+
+            // A time of day only means something on a due date.
+            if ($task->due_date === null) {
+                $task->due_time = null;
+            }
+        });
+
+        static::updated(function (Task $task) {
+            if ($task->wasChanged(['due_date', 'due_time'])) {
+                $task->rescheduleReminders();
+            }
+
+            if ($task->wasChanged('is_completed') && $task->is_completed) {
+                $task->spawnNextOccurrence();
+            }
+        });
+    }
+
+    /**
+     * Times are stored with seconds but edited as hours and minutes.
+     */
+    protected function dueTime(): Attribute
+    {
+        return Attribute::make(
+            get: fn (?string $value) => $value === null ? null : substr($value, 0, 5),
+            set: fn (?string $value) => $value === null ? null : CarbonImmutable::parse($value)->format('H:i:s'),
+        );
+    }
+
+    /**
+     * Get the moment the task falls due, in UTC.
+     *
+     * The due date and time are read in the owner's time zone, and a task
+     * without a due time is due at the default time of day.
+     */
+    public function dueAt(): ?CarbonImmutable
+    {
+        if ($this->due_date === null) {
+            return null;
+        }
+
+        return CarbonImmutable::parse(
+            $this->due_date->toDateString().' '.($this->due_time ?? self::DEFAULT_DUE_TIME),
+            $this->list?->user?->timezone ?? config('app.timezone'),
+        )->utc();
+    }
+
+    /**
+     * Replace the task's reminders with ones going off the given numbers of
+     * minutes before it is due. Unchanged reminders are kept as they are, so
+     * one that has already gone off is not sent again.
+     *
+     * @param  list<int>  $minutes
+     */
+    public function syncReminders(array $minutes): void
+    {
+        $this->reminders()->whereNotIn('minutes_before', $minutes)->delete();
+
+        $existing = $this->reminders()->pluck('minutes_before')->all();
+        $dueAt = $this->dueAt();
+
+        foreach (array_diff(array_unique($minutes), $existing) as $minutesBefore) {
+            $reminder = $this->reminders()->make(['minutes_before' => $minutesBefore]);
+            $reminder->reschedule($dueAt);
+            $reminder->save();
+        }
+
+        $this->unsetRelation('reminders');
+    }
+
+    /**
+     * Move the task's reminders along with its due date, time or time zone.
+     */
+    public function rescheduleReminders(): void
+    {
+        $dueAt = $this->dueAt();
+
+        $this->reminders()->get()->each(function (Reminder $reminder) use ($dueAt) {
+            $reminder->reschedule($dueAt);
+            $reminder->save();
+        });
+    }
+
+    /**
+     * Get the parsed recurrence rule, if the task repeats.
+     */
+    public function recurrenceRule(): ?Recurrence
+    {
+        return $this->recurrence ? Recurrence::fromArray($this->recurrence) : null;
+    }
+
+    /**
+     * Create the next open occurrence of a recurring task.
+     *
+     * Completed occurrences are left in place as the series history, and
+     * only one occurrence of a series is kept open at any time.
+     */
+    public function spawnNextOccurrence(): ?Task
+    {
+        $rule = $this->recurrenceRule();
+
+        if (! $rule) {
+            return null;
+        }
+
+        $hasOpenOccurrence = static::where('series_id', $this->series_id)
+            ->whereKeyNot($this->getKey())
+            ->where('is_completed', false)
+            ->exists();
+
+        if ($hasOpenOccurrence) {
+            return null;
+        }
+
+        return DB::transaction(function () use ($rule) {
+            $next = $this->replicate();
+            $next->forceFill([
+                'is_completed' => false,
+                'status' => 'todo',
+                'due_date' => $rule->nextAfter($this->due_date ?? now())->toDateString(),
+            ])->save();
+
+            $next->tags()->sync($this->tags()->pluck('tags.id'));
+            $next->syncReminders($this->reminders()->pluck('minutes_before')->all());
+
+            foreach ($this->checklistItems as $item) {
+                $next->checklistItems()->create([
+                    'title' => $item->title,
+                    'position' => $item->position,
+                ]);
+            }
+
+            return $next;
+        });
+    }
+
+    /**
+     * Get the completed occurrences of the same recurring series.
+     */
+    public function completedOccurrences(): HasMany
+    {
+        return $this->hasMany(Task::class, 'series_id', 'series_id')
+            ->where('is_completed', true);
+    }
+
+    /**
+     * Order tasks by how important they are rather than alphabetically.
+     */
+    public function scopeOrderByPriority(Builder $query, string $direction = 'desc'): void
+    {
+        $direction = strtolower($direction) === 'asc' ? 'asc' : 'desc';
+
+        $cases = collect(self::PRIORITIES)
+            ->map(fn ($priority, $rank) => "when '{$priority}' then {$rank}")
+            ->implode(' ');
+
+        $query->orderByRaw("case priority {$cases} end {$direction}");
+    }
+
+    /**
+     * Limit tasks to one of the named due-date windows.
+     *
+     * Overdue only counts open tasks; a week runs from Sunday to Saturday,
+     * the same as on the dashboard. Today is the user's, not the server's.
+     */
+    public function scopeDueWithin(Builder $query, string $window, CarbonInterface $today): void
+    {
+        match ($window) {
+            'overdue' => $query->where('is_completed', false)->whereDate('due_date', '<', $today),
+            'today' => $query->whereDate('due_date', $today),
+            'week' => $query
+                ->whereDate('due_date', '>=', $today->copy()->startOfWeek(CarbonInterface::SUNDAY))
+                ->whereDate('due_date', '<=', $today->copy()->endOfWeek(CarbonInterface::SATURDAY)),
+            'upcoming' => $query->whereDate('due_date', '>', $today),
+            'none' => $query->whereNull('due_date'),
+        };
+    }
+
+    /**
+     * Mirror the checklist onto the task when auto-complete is switched on.
+     */
+    public function syncCompletionWithChecklist(): void
+    {
+        if (! $this->auto_complete) {
+            return;
+        }
+
+        $items = $this->checklistItems()->get();
+
+        if ($items->isEmpty()) {
+            return;
+        }
+
+        $this->update(['is_completed' => $items->every('is_completed')]);
+    }
+
+    /**
+     * Place the task between two neighbours in its list.
+     *
+     * Only this task is written unless the neighbours have run out of room
+     * between them, in which case the list is spread out again first.
+     */
+    public function moveBetween(?Task $previous, ?Task $next): void
+    {
+        if ($previous && $next && abs($next->position - $previous->position) < 1e-6) {
+            static::renumber($this->list_id);
+
+            $previous->refresh();
+            $next->refresh();
+        }
+
+        $this->update(['position' => match (true) {
+            $previous && $next => ($previous->position + $next->position) / 2,
+            (bool) $previous => $previous->position + self::POSITION_GAP,
+            (bool) $next => $next->position - self::POSITION_GAP,
+            default => $this->position,
+        }]);
+    }
+
+    /**
+     * Reset the positions of every task in a list to evenly spaced values.
+     */
+    public static function renumber(int $listId): void
+    {
+        static::withTrashed()
+            ->where('list_id', $listId)
+            ->orderBy('position')
+            ->orderBy('id')
+            ->pluck('id')
+            ->each(fn ($id, $index) => static::withTrashed()
+                ->whereKey($id)
+                ->toBase()
+                ->update(['position' => ($index + 1) * self::POSITION_GAP]));
+    }
+
+    /**
+     * Tasks left in the trash past the retention period are purged.
+     */
+    public function prunable(): Builder
+    {
+        return static::onlyTrashed()
+            ->where('deleted_at', '<=', now()->subDays(config('tasks.trash_retention_days')));
+    }
+
     public function list(): BelongsTo
     {
         return $this->belongsTo(TaskList::class, 'list_id');
     }
+
+    public function tags(): BelongsToMany
+    {
+        return $this->belongsToMany(Tag::class);
+    }
+
+    public function checklistItems(): HasMany
+    {
+        return $this->hasMany(ChecklistItem::class)->orderBy('position')->orderBy('id');
+    }
+
+    public function reminders(): HasMany
+    {
+        return $this->hasMany(Reminder::class)->orderBy('minutes_before');
+    }
 }
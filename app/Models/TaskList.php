@@ -2,12 +2,19 @@
 
 namespace App\Models;
 
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Builder;
 use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Prunable;
 use Illuminate\Database\Eloquent\Relations\BelongsTo;
 use Illuminate\Database\Eloquent\Relations\HasMany;
+use Illuminate\Database\Eloquent\SoftDeletes;
 
 class TaskList extends Model
 {
+    /** @use HasFactory<\Database\Factories\TaskListFactory> */
+    use HasFactory, Prunable, SoftDeletes;
+
     protected $table = 'lists';
 
     protected $fillable = [
@@ -17,9 +24,19 @@ class TaskList extends Model
         'user_id'
     ];
 
+    /**
+     * Lists left in the trash past the retention period are purged, along
+     * with their tasks.
+     */
+    public function prunable(): Builder
+    {
+        return static::onlyTrashed()
+            ->where('deleted_at', '<=', now()->subDays(config('tasks.trash_retention_days')));
+    }
+
     public function tasks(): HasMany
     {
-        return $this->hasMany(Task::class);
+        return $this->hasMany(Task::class, 'list_id');
     }
 
     public function user(): BelongsTo
@@ -3,7 +3,9 @@
 namespace App\Models;
 
 // use Illuminate\Contracts\Auth\MustVerifyEmail;
+use Carbon\CarbonImmutable;
 use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Relations\HasMany;
 use Illuminate\Foundation\Auth\User as Authenticatable;
 use Illuminate\Notifications\Notifiable;
 use Laravel\Fortify\TwoFactorAuthenticatable;
@@ -13,6 +15,12 @@ class User extends Authenticatable
     /** @use HasFactory<\Database\Factories\UserFactory> */
     use HasFactory, Notifiable, TwoFactorAuthenticatable;
 
+    /**
+     * The hour of the morning, in the user's own time zone, that the daily
+     * digest goes out.
+     */
+    public const DIGEST_HOUR = 7;
+
     /**
      * The attributes that are mass assignable.
      *
@@ -22,6 +30,12 @@ class User extends Authenticatable
         'name',
         'email',
         'password',
+        'task_view',
+        'task_board_group',
+        'keyboard_shortcuts',
+        'timezone',
+        'daily_digest',
+        'email_reminders',
     ];
 
     /**
@@ -47,6 +61,61 @@ protected function casts(): array
             'email_verified_at' => 'datetime',
             'password' => 'hashed',
             'two_factor_confirmed_at' => 'datetime',
+            'keyboard_shortcuts' => 'boolean',
+            'daily_digest' => 'boolean',
+            'email_reminders' => 'boolean',
+            'digest_sent_at' => 'datetime',
         ];
     }
+
+    /**
+     * Move the reminders of open tasks when the user changes time zone, so
+     * they still go off at the same local time.
+     */
+    protected static function booted(): void
+    {
+        static::updated(function (User $user) {
+            if (! $user->wasChanged('timezone')) {
+                return;
+            }
+
+            Task::whereHas('list', fn ($q) => $q->where('user_id', $user->id))
+                ->where('is_completed', false)
+                ->whereHas('reminders')
+                ->with('list.user')
+                ->each(fn (Task $task) => $task->rescheduleReminders());
+        });
+    }
+
+    /**
+     * Get the current date in the user's time zone.
+     */
+    public function today(): CarbonImmutable
+    {
+        return CarbonImmutable::now($this->timezone)->startOfDay();
+    }
+
+    /**
+     * Get the task lists owned by the user.
+     */
+    public function lists(): HasMany
+    {
+        return $this->hasMany(TaskList::class);
+    }
+
+    /**
+     * Get the tags created by the user.
+     */
+    public function tags(): HasMany
+    {
+        return $this->hasMany(Tag::class);
+    }
+
+    /**
+     * Get the task views the user has saved.
+     */
+    public function savedViews(): HasMany
+    {
+        return $this->hasMany(SavedView::class);
+    }
 }
@@ -0,0 +1,50 @@
+<?php
+
+namespace App\Notifications;
+
+use Illuminate\Bus\Queueable;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Database\Eloquent\Collection;
+use Illuminate\Notifications\Messages\MailMessage;
+use Illuminate\Notifications\Notification;
+
+class DailyDigest extends Notification implements ShouldQueue
+{
+    use Queueable;
+
+    /**
+     * Create a new notification instance.
+     *
+     * @param  Collection<int, \App\Models\Task>  $overdue
+     * @param  Collection<int, \App\Models\Task>  $dueToday
+     */
+    public function __construct(public Collection $overdue, public Collection $dueToday) {}
+
+    /**
+     * Get the notification's delivery channels.
+     *
+     * @return array<int, string>
+     */
+    public function via(object $notifiable): array
+    {
+        return ['mail'];
+    }
+
+    /**
+     * Get the mail representation of the notification.
+     */
+    public function toMail(object $notifiable): MailMessage
+    {
+        $count = $this->overdue->count() + $this->dueToday->count();
+
+        return (new MailMessage)
+            ->subject(trans_choice('{1} 1 task needs you today|[2,*] :count tasks need you today', $count))
+            ->markdown('mail.daily-digest', [
+                'name' => $notifiable->name,
+                'overdue' => $this->overdue,
+                'dueToday' => $this->dueToday,
+                'url' => route('tasks.index'),
+                'settingsUrl' => route('notification-preferences.edit'),
+            ]);
+    }
+}
@@ -0,0 +1,69 @@
+<?php
+
+namespace App\Notifications;
+
+use App\Models\Task;
+use Illuminate\Bus\Queueable;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Notifications\Messages\MailMessage;
+use Illuminate\Notifications\Notification;
+
+class TaskReminder extends Notification implements ShouldQueue
+{
+    use Queueable;
+
+    /**
+     * A reminder for a task that has since been deleted is dropped.
+     */
+    public bool $deleteWhenMissingModels = true;
+
+    /**
+     * Create a new notification instance.
+     */
+    public function __construct(public Task $task, public int $minutesBefore) {}
+
+    /**
+     * Get the notification's delivery channels.
+     *
+     * Reminders always appear in the app and are emailed as well to users
+     * who have opted in.
+     *
+     * @return array<int, string>
+     */
+    public function via(object $notifiable): array
+    {
+        return $notifiable->email_reminders ? ['database', 'mail'] : ['database'];
+    }
+
+    /**
+     * Get the mail representation of the notification.
+     */
+    public function toMail(object $notifiable): MailMessage
+    {
+        $dueAt = $this->task->dueAt()?->setTimezone($notifiable->timezone ?? config('app.timezone'));
+
+        return (new MailMessage)
+            ->subject("Reminder: {$this->task->title}")
+            ->markdown('mail.task-reminder', [
+                'task' => $this->task,
+                'due' => $dueAt?->format($this->task->due_time ? 'l, F j \a\t g:i A' : 'l, F j'),
+                'url' => route('tasks.show', $this->task),
+                'settingsUrl' => route('notification-preferences.edit'),
+            ]);
+    }
+
+    /**
+     * Get the array representation of the notification.
+     *
+     * @return array<string, mixed>
+     */
+    public function toArray(object $notifiable): array
+    {
+        return [
+            'task_id' => $this->task->id,
+            'title' => $this->task->title,
+            'due_at' => $this->task->dueAt()?->toIso8601String(),
+            'minutes_before' => $this->minutesBefore,
+        ];
+    }
+}
@@ -0,0 +1,25 @@
+<?php
+
+namespace App\Policies;
+
+use App\Models\SavedView;
+use App\Models\User;
+
+class SavedViewPolicy
+{
+    /**
+     * Determine whether the user can save views.
+     */
+    public function create(User $user): bool
+    {
+        return true;
+    }
+
+    /**
+     * Determine whether the user can delete the saved view.
+     */
+    public function delete(User $user, SavedView $savedView): bool
+    {
+        return $savedView->user_id === $user->id;
+    }
+}
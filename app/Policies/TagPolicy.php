@@ -0,0 +1,41 @@
+<?php
+
+namespace App\Policies;
+
+use App\Models\Tag;
+use App\Models\User;
+
+class TagPolicy
+{
+    /**
+     * Determine whether the user can view any tags.
+     */
+    public function viewAny(User $user): bool
+    {
+        return true;
+    }
+
+    /**
+     * Determine whether the user can create tags.
+     */
+    public function create(User $user): bool
+    {
+        return true;
+    }
+
+    /**
+     * Determine whether the user can update the tag.
+     */
+    public function update(User $user, Tag $tag): bool
+    {
+        return $tag->user_id === $user->id;
+    }
+
+    /**
+     * Determine whether the user can delete the tag.
+     */
+    public function delete(User $user, Tag $tag): bool
+    {
+        return $tag->user_id === $user->id;
+    }
+}
@@ -0,0 +1,65 @@
+<?php
+
+namespace App\Policies;
+
+use App\Models\TaskList;
+use App\Models\User;
+
+class TaskListPolicy
+{
+    /**
+     * Determine whether the user can view any lists.
+     */
+    public function viewAny(User $user): bool
+    {
+        return true;
+    }
+
+    /**
+     * Determine whether the user can view the list.
+     */
+    public function view(User $user, TaskList $list): bool
+    {
+        return $list->user_id === $user->id;
+    }
+
+    /**
+     * Determine whether the user can create lists.
+     */
+    public function create(User $user): bool
+    {
+        return true;
+    }
+
+    /**
+     * Determine whether the user can update the list.
+     */
+    public function update(User $user, TaskList $list): bool
+    {
+        return $list->user_id === $user->id;
+    }
+
+    /**
+     * Determine whether the user can delete the list.
+     */
+    public function delete(User $user, TaskList $list): bool
+    {
+        return $list->user_id === $user->id;
+    }
+
+    /**
+     * Determine whether the user can restore the list from the trash.
+     */
+    public function restore(User $user, TaskList $list): bool
+    {
+        return $list->user_id === $user->id;
+    }
+
+    /**
+     * Determine whether the user can permanently delete the list.
+     */
+    public function forceDelete(User $user, TaskList $list): bool
+    {
+        return $list->user_id === $user->id;
+    }
+}
@@ -0,0 +1,73 @@
+<?php
+
+namespace App\Policies;
+
+use App\Models\Task;
+use App\Models\User;
+
+class TaskPolicy
+{
+    /**
+     * Determine whether the user can view any tasks.
+     */
+    public function viewAny(User $user): bool
+    {
+        return true;
+    }
+
+    /**
+     * Determine whether the user can view the task.
+     */
+    public function view(User $user, Task $task): bool
+    {
+        return $this->owns($user, $task);
+    }
+
+    /**
+     * Determine whether the user can create tasks.
+     */
+    public function create(User $user): bool
+    {
+        return true;
+    }
+
+    /**
+     * Determine whether the user can update the task.
+     */
+    public function update(User $user, Task $task): bool
+    {
+        return $this->owns($user, $task);
+    }
+
+    /**
+     * Determine whether the user can delete the task.
+     */
+    public function delete(User $user, Task $task): bool
+    {
+        return $this->owns($user, $task);
+    }
+
+    /**
+     * Determine whether the user can restore the task from the trash.
+     */
+    public function restore(User $user, Task $task): bool
+    {
+        return $this->owns($user, $task);
+    }
+
+    /**
+     * Determine whether the user can permanently delete the task.
+     */
+    public function forceDelete(User $user, Task $task): bool
+    {
+        return $this->owns($user, $task);
+    }
+
+    /**
+     * Tasks are owned through the list they belong to.
+     */
+    protected function owns(User $user, Task $task): bool
+    {
+        return $task->list?->user_id === $user->id;
+    }
+}
@@ -0,0 +1,321 @@
+<?php
+
+namespace App\Support;
+
+use App\Models\Task;
+use Carbon\CarbonImmutable;
+use Carbon\CarbonInterface;
+
+/**
+ * The quick-add grammar: a single line such as "Pay rent tomorrow #Home
+ * !high every month" is split into a title and the fields picked out of it.
+ *
+ * Each field is taken from its first mention only and anything that is not
+ * recognised, such as a #name that matches no list, stays in the title.
+ */
+class QuickAdd
+{
+    /**
+     * @var array<string, int>
+     */
+    protected const WEEKDAYS = [
+        'sunday' => 0, 'monday' => 1, 'tuesday' => 2, 'wednesday' => 3,
+        'thursday' => 4, 'friday' => 5, 'saturday' => 6,
+    ];
+
+    /**
+     * Short weekday names, which are only read as dates after a word such
+     * as "on" or "every" so that "sat" or "wed" in a title are left alone.
+     *
+     * @var array<string, int>
+     */
+    protected const WEEKDAY_ABBREVIATIONS = [
+        'sun' => 0, 'mon' => 1, 'tue' => 2, 'tues' => 2, 'wed' => 3,
+        'thu' => 4, 'thur' => 4, 'thurs' => 4, 'fri' => 5, 'sat' => 6,
+    ];
+
+    /**
+     * @var array<string, int>
+     */
+    protected const MONTHS = [
+        'jan' => 1, 'feb' => 2, 'mar' => 3, 'apr' => 4, 'may' => 5, 'jun' => 6,
+        'jul' => 7, 'aug' => 8, 'sep' => 9, 'sept' => 9, 'oct' => 10, 'nov' => 11, 'dec' => 12,
+        'january' => 1, 'february' => 2, 'march' => 3, 'april' => 4, 'june' => 6,
+        'july' => 7, 'august' => 8, 'september' => 9, 'october' => 10, 'november' => 11, 'december' => 12,
+    ];
+
+    /**
+     * @param  array<string, mixed>|null  $recurrence
+     */
+    public function __construct(
+        public readonly string $title,
+        public readonly ?string $dueDate = null,
+        public readonly ?int $listId = null,
+        public readonly ?string $priority = null,
+        public readonly ?array $recurrence = null,
+    ) {}
+
+    /**
+     * Pick the fields out of a quick-add line.
+     *
+     * A repeating task without a date starts on its first occurrence.
+     *
+     * @param  array<int, string>  $lists  The titles of the lists a #name may refer to, keyed by id.
+     */
+    public static function parse(string $input, array $lists = [], ?CarbonInterface $today = null): self
+    {
+        $today = CarbonImmutable::instance($today ?? CarbonImmutable::today())->startOfDay();
+
+        // Padding lets every pattern treat the ends of the line as spaces.
+        $text = ' '.$input.' ';
+
+        $recurrence = static::takeRecurrence($text);
+        $listId = static::takeList($text, $lists);
+        $priority = static::takePriority($text);
+        $dueDate = static::takeDate($text, $today);
+
+        if ($recurrence !== null && $dueDate === null) {
+            $dueDate = static::firstOccurrence(Recurrence::fromArray($recurrence), $today);
+        }
+
+        // Punctuation left behind by a removed phrase is tidied up.
+        $title = preg_replace(['/\s+/u', '/\s([,.;])/u'], [' ', '$1'], $text);
+
+        return new self(
+            title: trim((string) $title, " \t,;"),
+            dueDate: $dueDate?->toDateString(),
+            listId: $listId,
+            priority: $priority,
+            recurrence: $recurrence,
+        );
+    }
+
+    /**
+     * Get the parsed fields keyed as the task form submits them.
+     *
+     * @return array<string, mixed>
+     */
+    public function toArray(): array
+    {
+        return [
+            'title' => $this->title,
+            'due_date' => $this->dueDate,
+            'list_id' => $this->listId,
+            'priority' => $this->priority,
+            'recurrence' => $this->recurrence,
+        ];
+    }
+
+    /**
+     * Take "every day", "every 2 weeks", "every monday and thursday",
+     * "every weekday", "every 15th", "daily" and the like.
+     *
+     * @return array<string, mixed>|null
+     */
+    protected static function takeRecurrence(string &$text): ?array
+    {
+        $day = static::alternation([...array_keys(self::WEEKDAYS), ...array_keys(self::WEEKDAY_ABBREVIATIONS)]);
+
+        return static::takeFirst($text, [
+            "every\\s+(?<days>{$day}s?(?:\\s*(?:,|and|&)\\s*{$day}s?)*)" => function ($match) use ($day) {
+                preg_match_all("/{$day}/i", $match['days'], $days);
+
+                $weekdays = array_map(fn ($name) => static::weekday($name), $days[0]);
+
+                return new Recurrence('weekly', weekdays: static::sorted($weekdays));
+            },
+            'every\s+(?<kind>weekday|weekend)' => fn ($match) => new Recurrence(
+                'weekly',
+                weekdays: strtolower($match['kind']) === 'weekday' ? [1, 2, 3, 4, 5] : [0, 6],
+            ),
+            'every\s+(?<day>\d{1,2})(?:st|nd|rd|th)(?:\s+of\s+the\s+month)?' => fn ($match) => (int) $match['day'] >= 1 && (int) $match['day'] <= 31
+                ? new Recurrence('monthly', monthDay: (int) $match['day'])
+                : null,
+            'every\s+(?:(?<interval>\d{1,3}|other)\s+)?(?<unit>day|week|month)s?' => fn ($match) => new Recurrence(
+                static::frequency($match['unit']),
+                match (strtolower($match['interval'] ?? '')) {
+                    '' => 1,
+                    'other' => 2,
+                    default => max(1, (int) $match['interval']),
+                },
+            ),
+            '(?<frequency>daily|weekly|monthly)' => fn ($match) => new Recurrence(strtolower($match['frequency'])),
+        ])?->toArray();
+    }
+
+    /**
+     * Take a #name matching one of the lists, preferring the longest title
+     * so "#Home projects" wins over "#Home". Titles may also be quoted.
+     *
+     * @param  array<int, string>  $lists
+     */
+    protected static function takeList(string &$text, array $lists): ?int
+    {
+        if ($lists === []) {
+            return null;
+        }
+
+        return static::takeFirst($text, [
+            '#(?<quote>"?)(?<name>'.static::alternation(array_values($lists)).')\k<quote>' => fn ($match) => array_search(
+                mb_strtolower($match['name']),
+                array_map('mb_strtolower', $lists),
+                true,
+            ) ?: null,
+        ]);
+    }
+
+    protected static function takePriority(string &$text): ?string
+    {
+        return static::takeFirst($text, [
+            '!(?<priority>'.static::alternation(Task::PRIORITIES).')' => fn ($match) => strtolower($match['priority']),
+        ]);
+    }
+
+    /**
+     * Take a due date such as "today", "tomorrow", "on friday", "next week",
+     * "in 3 days", "nov 14", "14 november" or "2026-11-14".
+     *
+     * A bare weekday means the next one after today, and a day of the year
+     * without a year the next time it comes round.
+     */
+    protected static function takeDate(string &$text, CarbonImmutable $today): ?CarbonImmutable
+    {
+        $prefix = '(?:(?:on|by|due)\s+)?';
+        $full = static::alternation(array_keys(self::WEEKDAYS));
+        $short = static::alternation(array_keys(self::WEEKDAY_ABBREVIATIONS));
+        $month = static::alternation(array_keys(self::MONTHS));
+
+        $dayOfYear = function ($match) use ($today) {
+            $month = self::MONTHS[strtolower($match['month'])];
+
+            if (($match['year'] ?? '') !== '') {
+                return static::calendarDate((int) $match['year'], $month, (int) $match['day']);
+            }
+
+            $date = static::calendarDate($today->year, $month, (int) $match['day']);
+
+            return $date?->lessThan($today)
+                ? static::calendarDate($today->year + 1, $month, (int) $match['day'])
+                : $date;
+        };
+
+        return static::takeFirst($text, [
+            "{$prefix}(?<day>today|tonight|tomorrow|tmrw)" => fn ($match) => in_array(strtolower($match['day']), ['today', 'tonight'], true)
+                ? $today
+                : $today->addDay(),
+            "{$prefix}next\\s+(?<unit>week|month)" => fn ($match) => strtolower($match['unit']) === 'week'
+                ? $today->next(CarbonInterface::MONDAY)
+                : $today->startOfMonth()->addMonthNoOverflow(),
+            'in\s+(?<count>\d{1,3}|an?)\s+(?<unit>day|week|month)s?' => function ($match) use ($today) {
+                $count = is_numeric($match['count']) ? (int) $match['count'] : 1;
+
+                return match (static::frequency($match['unit'])) {
+                    'daily' => $today->addDays($count),
+                    'weekly' => $today->addWeeks($count),
+                    'monthly' => $today->addMonthsNoOverflow($count),
+                };
+            },
+            "(?:on|by|due|next)\\s+(?<day>{$full}|{$short})" => fn ($match) => $today->next(static::weekday($match['day'])),
+            "(?<day>{$full})" => fn ($match) => $today->next(static::weekday($match['day'])),
+            "{$prefix}(?<year>\\d{4})-(?<month>\\d{2})-(?<day>\\d{2})" => fn ($match) => static::calendarDate(
+                (int) $match['year'],
+                (int) $match['month'],
+                (int) $match['day'],
+            ),
+            "{$prefix}(?<month>{$month})\\.?\\s+(?<day>\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(?<year>\\d{4}))?" => $dayOfYear,
+            "{$prefix}(?<day>\\d{1,2})(?:st|nd|rd|th)?\\s+(?<month>{$month})\\.?(?:,?\\s+(?<year>\\d{4}))?" => $dayOfYear,
+        ]);
+    }
+
+    /**
+     * Try each pattern in turn, resolving its first match standing on its
+     * own to a value. The phrase is cut out of the text once it resolves,
+     * while one that does not, such as "feb 30", stays in the title.
+     *
+     * @template T
+     *
+     * @param  array<string, callable(array<string, string>): (T|null)>  $patterns
+     * @return T|null
+     */
+    protected static function takeFirst(string &$text, array $patterns): mixed
+    {
+        foreach ($patterns as $pattern => $resolve) {
+            if (! preg_match("/(?<=\\s){$pattern}(?=[,.;]?\\s)/iu", $text, $match, PREG_OFFSET_CAPTURE)) {
+                continue;
+            }
+
+            $value = $resolve(array_map(
+                fn ($group) => $group[0],
+                array_filter($match, fn ($group, $key) => is_string($key) && $group[1] !== -1, ARRAY_FILTER_USE_BOTH),
+            ));
+
+            if ($value !== null) {
+                [$whole, $offset] = $match[0];
+                $text = substr($text, 0, $offset).' '.substr($text, $offset + strlen($whole));
+
+                return $value;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Build a regex alternation of the words, longest first.
+     *
+     * @param  list<string>  $words
+     */
+    protected static function alternation(array $words): string
+    {
+        usort($words, fn ($a, $b) => mb_strlen($b) <=> mb_strlen($a));
+
+        return '(?:'.implode('|', array_map(fn ($word) => preg_quote($word, '/'), $words)).')';
+    }
+
+    protected static function weekday(string $name): int
+    {
+        $name = strtolower($name);
+
+        return self::WEEKDAYS[$name] ?? self::WEEKDAY_ABBREVIATIONS[$name];
+    }
+
+    protected static function frequency(string $unit): string
+    {
+        return match (strtolower($unit)) {
+            'day' => 'daily',
+            'week' => 'weekly',
+            'month' => 'monthly',
+        };
+    }
+
+    /**
+     * @param  list<int>  $weekdays
+     * @return list<int>
+     */
+    protected static function sorted(array $weekdays): array
+    {
+        $weekdays = array_values(array_unique($weekdays));
+        sort($weekdays);
+
+        return $weekdays;
+    }
+
+    protected static function calendarDate(int $year, int $month, int $day): ?CarbonImmutable
+    {
+        return checkdate($month, $day, $year) ? CarbonImmutable::create($year, $month, $day) : null;
+    }
+
+    /**
+     * Find the first day on or after today that the rule lands on.
+     */
+    protected static function firstOccurrence(Recurrence $rule, CarbonImmutable $today): CarbonImmutable
+    {
+        $matchesToday = match ($rule->frequency) {
+            'weekly' => $rule->weekdays === [] || in_array($today->dayOfWeek, $rule->weekdays, true),
+            'monthly' => $rule->monthDay === null || $rule->monthDay === $today->day,
+            default => true,
+        };
+
+        return $matchesToday ? $today : $rule->nextAfter($today->subDay());
+    }
+}
@@ -0,0 +1,145 @@
+<?php
+
+namespace App\Support;
+
+use Carbon\CarbonImmutable;
+use Carbon\CarbonInterface;
+
+/**
+ * A small subset of RFC 5545 RRULEs: daily, weekly on given weekdays and
+ * monthly by day, each with an optional interval.
+ */
+class Recurrence
+{
+    public const FREQUENCIES = ['daily', 'weekly', 'monthly'];
+
+    /**
+     * @param  list<int>  $weekdays  0 (Sunday) through 6 (Saturday).
+     */
+    public function __construct(
+        public readonly string $frequency,
+        public readonly int $interval = 1,
+        public readonly array $weekdays = [],
+        public readonly ?int $monthDay = null,
+    ) {}
+
+    /**
+     * Build a rule from the array stored on a task.
+     *
+     * @param  array<string, mixed>  $rule
+     */
+    public static function fromArray(array $rule): self
+    {
+        $weekdays = array_values(array_unique(array_map('intval', $rule['weekdays'] ?? [])));
+        sort($weekdays);
+
+        return new self(
+            frequency: $rule['frequency'],
+            interval: max(1, (int) ($rule['interval'] ?? 1)),
+            weekdays: $weekdays,
+            monthDay: isset($rule['month_day']) ? (int) $rule['month_day'] : null,
+        );
+    }
+
+    /**
+     * Pin a monthly rule without a day to the day of the given date, so
+     * clamping to a short month does not move every later occurrence.
+     */
+    public function anchoredTo(CarbonInterface $date): self
+    {
+        if ($this->frequency !== 'monthly' || $this->monthDay !== null) {
+            return $this;
+        }
+
+        return new self($this->frequency, $this->interval, $this->weekdays, $date->day);
+    }
+
+    /**
+     * Get the validation rules for a recurrence submitted under the given key.
+     *
+     * @return array<string, mixed>
+     */
+    public static function rules(string $key = 'recurrence'): array
+    {
+        return [
+            $key => 'nullable|array',
+            "{$key}.frequency" => 'required_with:'.$key.'|in:'.implode(',', self::FREQUENCIES),
+            "{$key}.interval" => 'nullable|integer|min:1|max:365',
+            "{$key}.weekdays" => 'nullable|array',
+            "{$key}.weekdays.*" => 'integer|between:0,6',
+            "{$key}.month_day" => 'nullable|integer|between:1,31',
+        ];
+    }
+
+    /**
+     * Calculate the first occurrence strictly after the given date.
+     */
+    public function nextAfter(CarbonInterface $date): CarbonImmutable
+    {
+        $date = CarbonImmutable::instance($date)->startOfDay();
+
+        return match ($this->frequency) {
+            'daily' => $date->addDays($this->interval),
+            'weekly' => $this->nextWeekly($date),
+            'monthly' => $this->nextMonthly($date),
+        };
+    }
+
+    /**
+     * Walk forward day by day, only accepting weekdays in every n-th week.
+     */
+    protected function nextWeekly(CarbonImmutable $date): CarbonImmutable
+    {
+        if ($this->weekdays === []) {
+            return $date->addWeeks($this->interval);
+        }
+
+        $anchor = $date->startOfWeek(CarbonInterface::SUNDAY);
+        $candidate = $date;
+
+        for ($i = 0; $i < 7 * ($this->interval + 1); $i++) {
+            $candidate = $candidate->addDay();
+            $week = (int) $anchor->diffInWeeks($candidate->startOfWeek(CarbonInterface::SUNDAY));
+
+            if ($week % $this->interval === 0 && in_array($candidate->dayOfWeek, $this->weekdays, true)) {
+                return $candidate;
+            }
+        }
+
+        return $date->addWeeks($this->interval);
+    }
+
+    /**
+     * Land on the requested day of the month, clamped to shorter months.
+     */
+    protected function nextMonthly(CarbonImmutable $date): CarbonImmutable
+    {
+        $day = $this->monthDay ?? $date->day;
+
+        $candidate = $date->startOfMonth();
+        $candidate = $candidate->setDay(min($day, $candidate->daysInMonth));
+
+        if ($candidate->greaterThan($date)) {
+            return $candidate;
+        }
+
+        $candidate = $date->startOfMonth()->addMonthsNoOverflow($this->interval);
+
+        return $candidate->setDay(min($day, $candidate->daysInMonth));
+    }
+
+    /**
+     * Convert the rule back into the array stored on a task.
+     *
+     * @return array<string, mixed>
+     */
+    public function toArray(): array
+    {
+        return array_filter([
+            'frequency' => $this->frequency,
+            'interval' => $this->interval,
+            'weekdays' => $this->frequency === 'weekly' ? $this->weekdays : null,
+            'month_day' => $this->frequency === 'monthly' ? $this->monthDay : null,
+        ], fn ($value) => $value !== null && $value !== []);
+    }
+}
@@ -0,0 +1,182 @@
+<?php
+
+namespace App\Support;
+
+use App\Models\Task;
+use App\Models\TaskList;
+use Carbon\CarbonImmutable;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Support\Arr;
+use Illuminate\Validation\Rule;
+
+/**
+ * The search, filter and sort options of the task list, shared by the task
+ * index and the saved views built from it.
+ */
+class TaskFilters
+{
+    /**
+     * The orders the task list can be sorted in, with the direction each
+     * one uses when none is given.
+     *
+     * @var array<string, string>
+     */
+    public const SORTS = [
+        'manual' => 'asc',
+        'relevance' => 'desc',
+        'created' => 'desc',
+        'updated' => 'desc',
+        'priority' => 'desc',
+        'due_date' => 'asc',
+        'title' => 'asc',
+        'list' => 'asc',
+        'completion' => 'asc',
+    ];
+
+    /**
+     * Get the validation rules for filters submitted under the given prefix.
+     *
+     * @return array<string, mixed>
+     */
+    public static function rules(string $prefix = ''): array
+    {
+        return [
+            "{$prefix}search" => 'nullable|string|max:255',
+            "{$prefix}filter" => 'nullable|in:all,completed,pending',
+            "{$prefix}priority" => ['nullable', Rule::in([...Task::PRIORITIES, 'all'])],
+            "{$prefix}tag" => 'nullable|string',
+            "{$prefix}lists" => 'nullable|array',
+            "{$prefix}lists.*" => 'integer',
+            "{$prefix}due" => ['nullable', Rule::in(Task::DUE_WINDOWS)],
+            "{$prefix}due_from" => 'nullable|date',
+            "{$prefix}due_to" => "nullable|date|after_or_equal:{$prefix}due_from",
+            "{$prefix}sort" => ['nullable', Rule::in(array_keys(self::SORTS))],
+            "{$prefix}direction" => 'nullable|in:asc,desc',
+        ];
+    }
+
+    /**
+     * Fill in the defaults for any filters that were left out.
+     *
+     * Searching for words ranks the results by relevance unless another
+     * order is asked for, and there is nothing to rank without them.
+     *
+     * @param  array<string, mixed>  $filters
+     * @return array<string, mixed>
+     */
+    public static function normalize(array $filters): array
+    {
+        $searching = TaskQuery::parse($filters['search'] ?? null)->words() !== [];
+        $sort = $filters['sort'] ?? ($searching ? 'relevance' : 'manual');
+
+        if ($sort === 'relevance' && ! $searching) {
+            $sort = 'manual';
+            $filters['direction'] = null;
+        }
+
+        return [
+            'search' => $filters['search'] ?? null,
+            'filter' => $filters['filter'] ?? null,
+            'priority' => $filters['priority'] ?? null,
+            'tag' => $filters['tag'] ?? null,
+            'lists' => array_map('intval', $filters['lists'] ?? []),
+            'due' => $filters['due'] ?? null,
+            'due_from' => $filters['due_from'] ?? null,
+            'due_to' => $filters['due_to'] ?? null,
+            'sort' => $sort,
+            'direction' => $filters['direction'] ?? self::SORTS[$sort],
+        ];
+    }
+
+    /**
+     * Strip the filters that have no effect, leaving what a saved view keeps.
+     *
+     * @param  array<string, mixed>  $filters
+     * @return array<string, mixed>
+     */
+    public static function compact(array $filters): array
+    {
+        $filters = static::normalize($filters);
+
+        return Arr::where($filters, fn ($value, $key) => filled($value)
+            && $value !== 'all'
+            && ! ($key === 'sort' && in_array($value, ['manual', 'relevance'], true))
+            && ! ($key === 'direction' && $value === self::SORTS[$filters['sort']]));
+    }
+
+    /**
+     * Narrow a task query down to the tasks matching the filters, with due
+     * dates relative to the given day.
+     *
+     * @param  array<string, mixed>  $filters
+     */
+    public static function apply(Builder $query, array $filters, CarbonImmutable $today): Builder
+    {
+        $filters = static::normalize($filters);
+
+        if (filled($filters['search'])) {
+            TaskQuery::parse($filters['search'])->apply($query, $today);
+        }
+
+        if (filled($filters['filter']) && $filters['filter'] !== 'all') {
+            $query->where('is_completed', $filters['filter'] === 'completed');
+        }
+
+        if ($filters['lists']) {
+            $query->whereIn('list_id', $filters['lists']);
+        }
+
+        if ($filters['due']) {
+            $query->dueWithin($filters['due'], $today);
+        }
+
+        if ($filters['due_from']) {
+            $query->whereDate('due_date', '>=', $filters['due_from']);
+        }
+
+        if ($filters['due_to']) {
+            $query->whereDate('due_date', '<=', $filters['due_to']);
+        }
+
+        if (in_array($filters['priority'], Task::PRIORITIES, true)) {
+            $query->where('priority', $filters['priority']);
+        }
+
+        if (filled($filters['tag']) && $filters['tag'] !== 'all') {
+            $query->whereHas('tags', function ($q) use ($filters) {
+                $q->whereKey($filters['tag']);
+            });
+        }
+
+        return $query;
+    }
+
+    /**
+     * Order a task query by the chosen sort, newest first among equals.
+     *
+     * Tasks without a due date always come last, whichever way round.
+     *
+     * @param  array<string, mixed>  $filters
+     */
+    public static function sort(Builder $query, array $filters): Builder
+    {
+        ['sort' => $sort, 'direction' => $direction] = $filters = static::normalize($filters);
+
+        match ($sort) {
+            'relevance' => TaskSearch::rank($query, TaskQuery::parse($filters['search'])->words()),
+            'manual' => $query->orderBy('list_id')->orderBy('position', $direction),
+            'created' => $query->orderBy('created_at', $direction),
+            'updated' => $query->orderBy('updated_at', $direction),
+            'priority' => $query->orderByPriority($direction),
+            'due_date' => $query->orderByRaw('due_date is null')->orderBy('due_date', $direction),
+            'title' => $query->orderBy('title', $direction),
+            'list' => $query->orderBy(
+                TaskList::select('title')->whereColumn('lists.id', 'tasks.list_id'),
+                $direction,
+            )->orderBy('position'),
+            'completion' => $query->orderBy('is_completed', $direction),
+        };
+
+        return $query->orderBy('created_at', 'desc')->orderBy('id', 'desc');
+    }
+}
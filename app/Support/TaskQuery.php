@@ -0,0 +1,236 @@
+<?php
+
+namespace App\Support;
+
+use App\Models\Task;
+use Carbon\CarbonImmutable;
+use Illuminate\Database\Eloquent\Builder;
+
+/**
+ * The search box grammar: free words and "quoted phrases" are searched for
+ * in the title, description and list title, while key:value terms such as
+ * list:Work, tag:urgent, is:open, priority:>=high or due:<2026-11-01 narrow
+ * the results further. Any term can be negated with a leading minus.
+ */
+class TaskQuery
+{
+    /**
+     * The keys a term may use, with a short description for autocomplete.
+     *
+     * @var array<string, string>
+     */
+    public const KEYS = [
+        'list' => 'Tasks in a list',
+        'tag' => 'Tasks with a tag',
+        'is' => 'open, done, overdue or recurring',
+        'priority' => 'A priority, optionally compared with < or >',
+        'due' => 'A date, today, tomorrow, week, upcoming, overdue or none',
+    ];
+
+    /**
+     * The states the is: key accepts.
+     *
+     * @var list<string>
+     */
+    public const STATES = ['open', 'done', 'completed', 'overdue', 'recurring'];
+
+    /**
+     * @param  list<array{key: string|null, operator: string, value: string, negated: bool}>  $terms
+     * @param  list<string>  $errors
+     */
+    public function __construct(
+        public readonly array $terms = [],
+        public readonly array $errors = [],
+    ) {}
+
+    /**
+     * Split the search input into terms, collecting any syntax errors.
+     *
+     * Invalid terms are reported and left out, so the rest of the query
+     * still narrows the results.
+     */
+    public static function parse(?string $input): self
+    {
+        $terms = [];
+        $errors = [];
+
+        preg_match_all(
+            '/(?<negated>-)?(?:(?<key>[a-z]+):)?(?:"(?<quoted>[^"]*)(?<closed>"?)|(?<bare>[^\s"]*))/i',
+            (string) $input,
+            $matches,
+            PREG_SET_ORDER | PREG_UNMATCHED_AS_NULL,
+        );
+
+        foreach ($matches as $match) {
+            $key = $match['key'] !== null ? strtolower($match['key']) : null;
+            $value = trim($match['quoted'] ?? $match['bare'] ?? '');
+
+            if ($match['quoted'] !== null && $match['closed'] === '') {
+                $errors[] = 'Missing closing quote after "'.$match['quoted'].'".';
+
+                continue;
+            }
+
+            if ($key !== null && ! array_key_exists($key, self::KEYS)) {
+                $errors[] = "Unknown filter \"{$key}:\". Try ".static::keyList().'.';
+
+                continue;
+            }
+
+            if ($value === '') {
+                if ($key !== null) {
+                    $errors[] = "\"{$key}:\" needs a value.";
+                }
+
+                continue;
+            }
+
+            $operator = '=';
+
+            if (in_array($key, ['due', 'priority'], true) && preg_match('/^(<=|>=|<|>|=)(.*)$/', $value, $parts)) {
+                [, $operator, $value] = $parts;
+            }
+
+            if ($error = static::validate($key, $operator, $value)) {
+                $errors[] = $error;
+
+                continue;
+            }
+
+            $terms[] = [
+                'key' => $key,
+                'operator' => $operator,
+                'value' => $value,
+                'negated' => $match['negated'] === '-',
+            ];
+        }
+
+        return new self($terms, $errors);
+    }
+
+    /**
+     * Describe what is wrong with a term's value, if anything.
+     */
+    protected static function validate(?string $key, string $operator, string $value): ?string
+    {
+        $value = strtolower($value);
+
+        return match ($key) {
+            'is' => in_array($value, self::STATES, true)
+                ? null
+                : "\"is:{$value}\" is not supported. Use is:open, is:done, is:overdue or is:recurring.",
+            'priority' => in_array($value, Task::PRIORITIES, true)
+                ? null
+                : "\"{$value}\" is not a priority. Use ".implode(', ', Task::PRIORITIES).'.',
+            'due' => match (true) {
+                in_array($value, Task::DUE_WINDOWS, true) && $operator === '=' => null,
+                static::date($value, CarbonImmutable::today()) !== null => null,
+                default => "\"{$value}\" is not a due date. Use a date like 2026-11-01, today, tomorrow or one of "
+                    .implode(', ', Task::DUE_WINDOWS).'.',
+            },
+            default => null,
+        };
+    }
+
+    /**
+     * Resolve a due: value to a calendar date, relative to the given day.
+     */
+    protected static function date(string $value, CarbonImmutable $today): ?CarbonImmutable
+    {
+        return match ($value) {
+            'today' => $today,
+            'tomorrow' => $today->addDay(),
+            'yesterday' => $today->subDay(),
+            default => preg_match('/^(\d{4})-(\d{2})-(\d{2})$/', $value, $parts) && checkdate($parts[2], $parts[3], $parts[1])
+                ? CarbonImmutable::parse($value)
+                : null,
+        };
+    }
+
+    /**
+     * List the supported keys for error messages.
+     */
+    protected static function keyList(): string
+    {
+        $keys = array_map(fn ($key) => "{$key}:", array_keys(self::KEYS));
+
+        return implode(', ', array_slice($keys, 0, -1)).' or '.end($keys);
+    }
+
+    /**
+     * Get the words and phrases searched for, leaving out excluded ones.
+     *
+     * @return list<string>
+     */
+    public function words(): array
+    {
+        return array_values(array_map(
+            fn ($term) => $term['value'],
+            array_filter($this->terms, fn ($term) => $term['key'] === null && ! $term['negated']),
+        ));
+    }
+
+    /**
+     * Narrow a task query down to the tasks matching every term, with due
+     * dates relative to the given day.
+     */
+    public function apply(Builder $query, CarbonImmutable $today): Builder
+    {
+        foreach ($this->terms as $term) {
+            $constraint = fn (Builder $q) => $this->constrain($q, $term, $today);
+
+            $term['negated'] ? $query->whereNot($constraint) : $query->where($constraint);
+        }
+
+        return $query;
+    }
+
+    /**
+     * Add the constraint for a single term.
+     *
+     * @param  array{key: string|null, operator: string, value: string, negated: bool}  $term
+     */
+    protected function constrain(Builder $query, array $term, CarbonImmutable $today): void
+    {
+        $value = $term['value'];
+        $lower = strtolower($value);
+
+        match ($term['key']) {
+            null => TaskSearch::constrain($query, $value),
+            'list' => $query->whereHas('list', function ($q) use ($lower) {
+                $q->whereRaw('lower(title) = ?', [$lower]);
+            }),
+            'tag' => $query->whereHas('tags', function ($q) use ($lower) {
+                $q->whereRaw('lower(name) = ?', [$lower]);
+            }),
+            'is' => match ($lower) {
+                'open' => $query->where('is_completed', false),
+                'done', 'completed' => $query->where('is_completed', true),
+                'overdue' => $query->dueWithin('overdue', $today),
+                'recurring' => $query->whereNotNull('recurrence'),
+            },
+            'priority' => $query->whereIn('priority', static::priorities($term['operator'], $lower)),
+            'due' => $term['operator'] === '=' && in_array($lower, Task::DUE_WINDOWS, true)
+                ? $query->dueWithin($lower, $today)
+                : $query->whereDate('due_date', $term['operator'], static::date($lower, $today)),
+        };
+    }
+
+    /**
+     * Expand a priority comparison into the matching priority levels.
+     *
+     * @return list<string>
+     */
+    protected static function priorities(string $operator, string $priority): array
+    {
+        $rank = array_search($priority, Task::PRIORITIES, true);
+
+        return array_values(array_filter(Task::PRIORITIES, fn ($candidate, $index) => match ($operator) {
+            '<' => $index < $rank,
+            '<=' => $index <= $rank,
+            '>' => $index > $rank,
+            '>=' => $index >= $rank,
+            default => $index === $rank,
+        }, ARRAY_FILTER_USE_BOTH));
+    }
+}
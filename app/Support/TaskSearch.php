@@ -0,0 +1,128 @@
+<?php
+
+namespace App\Support;
+
+use Illuminate\Database\Eloquent\Builder;
+
+/**
+ * Full-text matching and relevance ranking of tasks by their title,
+ * description and list title.
+ *
+ * SQLite uses the FTS5 tables kept in sync by triggers, while MySQL,
+ * MariaDB and PostgreSQL use their native full-text indexes.
+ */
+class TaskSearch
+{
+    /**
+     * How much more a match in the title counts than one in the description.
+     */
+    protected const TITLE_WEIGHT = 10;
+
+    /**
+     * Limit a task query to tasks matching a word or phrase.
+     */
+    public static function constrain(Builder $query, string $text): void
+    {
+        // Punctuation on its own never reaches a full-text index.
+        if (! static::searchable($text)) {
+            $query->where(function ($q) use ($text) {
+                $q->where('tasks.title', 'like', "%{$text}%")
+                    ->orWhere('tasks.description', 'like', "%{$text}%");
+            });
+
+            return;
+        }
+
+        if (static::driver($query) === 'sqlite') {
+            $match = static::ftsQuery([$text]);
+
+            $query->where(function ($q) use ($match) {
+                $q->whereIn('tasks.id', fn ($sub) => $sub->select('rowid')->from('tasks_fts')->whereRaw('tasks_fts match ?', [$match]))
+                    ->orWhereIn('tasks.list_id', fn ($sub) => $sub->select('rowid')->from('lists_fts')->whereRaw('lists_fts match ?', [$match]));
+            });
+
+            return;
+        }
+
+        $options = static::driver($query) === 'pgsql' ? [] : ['mode' => 'boolean'];
+        $text = static::driver($query) === 'pgsql' ? $text : static::booleanQuery([$text], required: true);
+
+        $query->where(function ($q) use ($text, $options) {
+            $q->whereFullText(['tasks.title', 'tasks.description'], $text, $options)
+                ->orWhereHas('list', fn ($list) => $list->whereFullText('title', $text, $options));
+        });
+    }
+
+    /**
+     * Order a task query by how well each task matches the given terms.
+     *
+     * @param  list<string>  $terms
+     */
+    public static function rank(Builder $query, array $terms): void
+    {
+        $terms = array_values(array_filter($terms, [static::class, 'searchable']));
+
+        if ($terms === []) {
+            return;
+        }
+
+        match (static::driver($query)) {
+            'sqlite' => $query->orderByRaw(
+                'coalesce((select -bm25(tasks_fts, ?, 1.0) from tasks_fts where tasks_fts match ? and tasks_fts.rowid = tasks.id), 0)'
+                .' + coalesce((select -bm25(lists_fts) from lists_fts where lists_fts match ? and lists_fts.rowid = tasks.list_id), 0) desc',
+                [self::TITLE_WEIGHT, static::ftsQuery($terms), static::ftsQuery($terms)],
+            ),
+            'pgsql' => $query->orderByRaw(
+                "ts_rank(setweight(to_tsvector('english', tasks.title), 'A') || to_tsvector('english', coalesce(tasks.description, '')), plainto_tsquery('english', ?))"
+                ." + coalesce((select ts_rank(to_tsvector('english', lists.title), plainto_tsquery('english', ?)) from lists where lists.id = tasks.list_id), 0) desc",
+                [implode(' ', $terms), implode(' ', $terms)],
+            ),
+            default => $query->orderByRaw(
+                'match(tasks.title) against (? in boolean mode) * ? + match(tasks.title, tasks.description) against (? in boolean mode)'
+                .' + coalesce((select match(lists.title) against (? in boolean mode) from lists where lists.id = tasks.list_id), 0) desc',
+                [static::booleanQuery($terms), self::TITLE_WEIGHT, static::booleanQuery($terms), static::booleanQuery($terms)],
+            ),
+        };
+    }
+
+    /**
+     * Build an FTS5 query matching any of the terms, each as a phrase whose
+     * last word may be a prefix, so half-typed words still match.
+     *
+     * @param  list<string>  $terms
+     */
+    protected static function ftsQuery(array $terms): string
+    {
+        return collect($terms)
+            ->map(fn ($term) => '"'.str_replace('"', '""', $term).'"*')
+            ->implode(' OR ');
+    }
+
+    /**
+     * Build a MySQL boolean-mode query from the terms, treating phrases as
+     * phrases and single words as prefixes.
+     *
+     * @param  list<string>  $terms
+     */
+    protected static function booleanQuery(array $terms, bool $required = false): string
+    {
+        $operator = $required ? '+' : '';
+
+        return collect($terms)
+            ->map(fn ($term) => preg_replace('/[+\-<>()~*"@]+/', ' ', $term))
+            ->map(fn ($term) => trim($term))
+            ->filter()
+            ->map(fn ($term) => str_contains($term, ' ') ? "{$operator}\"{$term}\"" : "{$operator}{$term}*")
+            ->implode(' ');
+    }
+
+    protected static function searchable(string $text): bool
+    {
+        return (bool) preg_match('/[\pL\pN]/u', $text);
+    }
+
+    protected static function driver(Builder $query): string
+    {
+        return $query->getConnection()->getDriverName();
+    }
+}
@@ -0,0 +1,133 @@
+<?php
+
+namespace App\Support;
+
+use App\Models\Task;
+use App\Models\User;
+use Illuminate\Support\Arr;
+use Illuminate\Support\Carbon;
+
+/**
+ * Remembers the last destructive or bulk task operation in the session so
+ * it can be reversed for a short while afterwards, even across reloads.
+ */
+class TaskUndo
+{
+    protected const SESSION_KEY = 'task_undo';
+
+    /**
+     * The columns an undoable operation may change.
+     *
+     * @var list<string>
+     */
+    public const ATTRIBUTES = ['list_id', 'position', 'status', 'is_completed', 'completed_at', 'due_date', 'due_time', 'priority'];
+
+    /**
+     * Capture the state of the given tasks before they are changed.
+     *
+     * @param  iterable<Task>  $tasks
+     * @return array{taken_at: string, tasks: array<int, array<string, mixed>>}
+     */
+    public static function snapshot(iterable $tasks): array
+    {
+        $snapshot = ['taken_at' => now()->toDateTimeString(), 'tasks' => []];
+
+        foreach ($tasks as $task) {
+            $snapshot['tasks'][$task->getKey()] = [
+                'trashed' => $task->trashed(),
+                'series_id' => $task->series_id,
+                'attributes' => Arr::only($task->getAttributes(), self::ATTRIBUTES),
+            ];
+        }
+
+        return $snapshot;
+    }
+
+    /**
+     * Record a snapshot as the operation that can currently be undone.
+     *
+     * @param  array{taken_at: string, tasks: array<int, array<string, mixed>>}  $snapshot
+     */
+    public static function remember(string $message, array $snapshot): void
+    {
+        session()->put(self::SESSION_KEY, [
+            ...$snapshot,
+            'message' => $message,
+            'expires_at' => now()->addSeconds(config('tasks.undo_window_seconds'))->toIso8601String(),
+        ]);
+    }
+
+    /**
+     * Drop the pending operation once a later change has overtaken it.
+     */
+    public static function forget(): void
+    {
+        session()->forget(self::SESSION_KEY);
+    }
+
+    /**
+     * Describe the operation that can still be undone, if any.
+     *
+     * @return array{message: string, expires_at: string}|null
+     */
+    public static function pending(): ?array
+    {
+        $operation = session(self::SESSION_KEY);
+
+        if (! $operation) {
+            return null;
+        }
+
+        if (Carbon::parse($operation['expires_at'])->isPast()) {
+            session()->forget(self::SESSION_KEY);
+
+            return null;
+        }
+
+        return Arr::only($operation, ['message', 'expires_at']);
+    }
+
+    /**
+     * Put the user's tasks back the way they were before the last operation.
+     */
+    public static function revert(User $user): bool
+    {
+        if (! static::pending()) {
+            return false;
+        }
+
+        $operation = session()->pull(self::SESSION_KEY);
+
+        $tasks = Task::withTrashed()
+            ->whereKey(array_keys($operation['tasks']))
+            ->whereHas('list', function ($q) use ($user) {
+                $q->where('user_id', $user->id);
+            })
+            ->get();
+
+        foreach ($tasks as $task) {
+            $before = $operation['tasks'][$task->getKey()];
+
+            if ($task->trashed() && ! $before['trashed']) {
+                $task->restore();
+            } elseif (! $task->trashed() && $before['trashed']) {
+                $task->delete();
+            }
+
+            $task->forceFill($before['attributes'])->save();
+        }
+
+        // Completing a recurring task spawns its next occurrence; once the
+        // completion is undone that occurrence should disappear with it.
+        $series = collect($operation['tasks'])->pluck('series_id')->filter()->unique();
+
+        if ($series->isNotEmpty()) {
+            Task::whereIn('series_id', $series)
+                ->whereKeyNot(array_keys($operation['tasks']))
+                ->where('created_at', '>=', $operation['taken_at'])
+                ->forceDelete();
+        }
+
+        return true;
+    }
+}
@@ -0,0 +1,30 @@
+<?php
+
+return [
+
+    /*
+    |--------------------------------------------------------------------------
+    | Trash Retention
+    |--------------------------------------------------------------------------
+    |
+    | Deleted tasks and lists are moved to the trash, where they can still be
+    | restored. Anything that has been in the trash for longer than this many
+    | days is permanently deleted by the scheduled "model:prune" command.
+    |
+    */
+
+    'trash_retention_days' => (int) env('TRASH_RETENTION_DAYS', 30),
+
+    /*
+    |--------------------------------------------------------------------------
+    | Undo Window
+    |--------------------------------------------------------------------------
+    |
+    | The number of seconds after deleting, completing or moving tasks during
+    | which the last operation can still be reversed from the "Undo" toast.
+    |
+    */
+
+    'undo_window_seconds' => (int) env('TASK_UNDO_WINDOW', 15),
+
+];
@@ -0,0 +1,37 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Task;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\ChecklistItem>
+ */
+class ChecklistItemFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'task_id' => Task::factory(),
+            'title' => fake()->sentence(3),
+            'is_completed' => false,
+            'position' => 0,
+        ];
+    }
+
+    /**
+     * Indicate that the item has been ticked off.
+     */
+    public function completed(): static
+    {
+        return $this->state(fn (array $attributes) => [
+            'is_completed' => true,
+        ]);
+    }
+}
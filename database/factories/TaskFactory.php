@@ -0,0 +1,38 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\TaskList;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\Task>
+ */
+class TaskFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'title' => fake()->sentence(4),
+            'description' => fake()->sentence(),
+            'is_completed' => false,
+            'due_date' => null,
+            'list_id' => TaskList::factory(),
+        ];
+    }
+
+    /**
+     * Indicate that the task has been completed.
+     */
+    public function completed(): static
+    {
+        return $this->state(fn (array $attributes) => [
+            'is_completed' => true,
+        ]);
+    }
+}
@@ -0,0 +1,35 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('tasks', function (Blueprint $table) {
+            $table->timestamp('completed_at')->nullable()->after('is_completed');
+            $table->index('completed_at');
+        });
+
+        DB::table('tasks')
+            ->where('is_completed', true)
+            ->update(['completed_at' => DB::raw('updated_at')]);
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('tasks', function (Blueprint $table) {
+            $table->dropIndex(['completed_at']);
+            $table->dropColumn('completed_at');
+        });
+    }
+};
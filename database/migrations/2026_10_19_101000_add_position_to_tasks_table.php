@@ -0,0 +1,43 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('tasks', function (Blueprint $table) {
+            $table->double('position')->default(0)->after('list_id');
+            $table->index(['list_id', 'position']);
+        });
+
+        // Start every list off in the order it was shown before: newest first.
+        DB::table('tasks')->distinct()->pluck('list_id')->each(function ($listId) {
+            DB::table('tasks')
+                ->where('list_id', $listId)
+                ->orderByDesc('created_at')
+                ->orderByDesc('id')
+                ->pluck('id')
+                ->each(fn ($id, $index) => DB::table('tasks')
+                    ->where('id', $id)
+                    ->update(['position' => ($index + 1) * 1024]));
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('tasks', function (Blueprint $table) {
+            $table->dropIndex(['list_id', 'position']);
+            $table->dropColumn('position');
+        });
+    }
+};
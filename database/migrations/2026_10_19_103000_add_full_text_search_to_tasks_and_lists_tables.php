@@ -0,0 +1,91 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * SQLite has no full-text indexes on ordinary tables, so the searchable
+     * columns are mirrored into FTS5 tables that triggers keep up to date.
+     */
+    public function up(): void
+    {
+        if (DB::getDriverName() !== 'sqlite') {
+            Schema::table('tasks', function (Blueprint $table) {
+                $table->fullText(['title', 'description']);
+                $table->fullText('title');
+            });
+
+            Schema::table('lists', function (Blueprint $table) {
+                $table->fullText('title');
+            });
+
+            return;
+        }
+
+        DB::statement("create virtual table tasks_fts using fts5(title, description, content='tasks', content_rowid='id', tokenize='porter unicode61')");
+        DB::statement("create virtual table lists_fts using fts5(title, content='lists', content_rowid='id', tokenize='porter unicode61')");
+
+        DB::unprepared(<<<'SQL'
+            create trigger tasks_fts_insert after insert on tasks begin
+                insert into tasks_fts (rowid, title, description) values (new.id, new.title, coalesce(new.description, ''));
+            end;
+
+            create trigger tasks_fts_delete after delete on tasks begin
+                insert into tasks_fts (tasks_fts, rowid, title, description) values ('delete', old.id, old.title, coalesce(old.description, ''));
+            end;
+
+            create trigger tasks_fts_update after update of title, description on tasks begin
+                insert into tasks_fts (tasks_fts, rowid, title, description) values ('delete', old.id, old.title, coalesce(old.description, ''));
+                insert into tasks_fts (rowid, title, description) values (new.id, new.title, coalesce(new.description, ''));
+            end;
+
+            create trigger lists_fts_insert after insert on lists begin
+                insert into lists_fts (rowid, title) values (new.id, new.title);
+            end;
+
+            create trigger lists_fts_delete after delete on lists begin
+                insert into lists_fts (lists_fts, rowid, title) values ('delete', old.id, old.title);
+            end;
+
+            create trigger lists_fts_update after update of title on lists begin
+                insert into lists_fts (lists_fts, rowid, title) values ('delete', old.id, old.title);
+                insert into lists_fts (rowid, title) values (new.id, new.title);
+            end;
+            SQL);
+
+        DB::statement("insert into tasks_fts (rowid, title, description) select id, title, coalesce(description, '') from tasks");
+        DB::statement('insert into lists_fts (rowid, title) select id, title from lists');
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        if (DB::getDriverName() !== 'sqlite') {
+            Schema::table('tasks', function (Blueprint $table) {
+                $table->dropFullText(['title', 'description']);
+                $table->dropFullText(['title']);
+            });
+
+            Schema::table('lists', function (Blueprint $table) {
+                $table->dropFullText(['title']);
+            });
+
+            return;
+        }
+
+        foreach (['tasks_fts_insert', 'tasks_fts_delete', 'tasks_fts_update', 'lists_fts_insert', 'lists_fts_delete', 'lists_fts_update'] as $trigger) {
+            DB::statement("drop trigger if exists {$trigger}");
+        }
+
+        DB::statement('drop table if exists tasks_fts');
+        DB::statement('drop table if exists lists_fts');
+    }
+};
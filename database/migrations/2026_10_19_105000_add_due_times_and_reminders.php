@@ -0,0 +1,50 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('tasks', function (Blueprint $table) {
+            $table->time('due_time')->nullable()->after('due_date');
+        });
+
+        Schema::table('users', function (Blueprint $table) {
+            $table->string('timezone')->default('UTC')->after('keyboard_shortcuts');
+        });
+
+        Schema::create('reminders', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('task_id')->constrained()->onDelete('cascade');
+            $table->unsignedInteger('minutes_before');
+            $table->timestamp('remind_at')->nullable();
+            $table->timestamp('sent_at')->nullable();
+            $table->timestamps();
+
+            $table->unique(['task_id', 'minutes_before']);
+            $table->index(['sent_at', 'remind_at']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('reminders');
+
+        Schema::table('users', function (Blueprint $table) {
+            $table->dropColumn('timezone');
+        });
+
+        Schema::table('tasks', function (Blueprint $table) {
+            $table->dropColumn('due_time');
+        });
+    }
+};
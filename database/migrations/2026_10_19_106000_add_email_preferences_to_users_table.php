@@ -0,0 +1,30 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('users', function (Blueprint $table) {
+            $table->boolean('daily_digest')->default(false)->after('timezone');
+            $table->boolean('email_reminders')->default(false)->after('daily_digest');
+            $table->timestamp('digest_sent_at')->nullable()->after('email_reminders');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('users', function (Blueprint $table) {
+            $table->dropColumn(['daily_digest', 'email_reminders', 'digest_sent_at']);
+        });
+    }
+};
@@ -1,6 +1,7 @@
 import { NavFooter } from '@/components/nav-footer';
 import { NavMain } from '@/components/nav-main';
 import { NavUser } from '@/components/nav-user';
+import { NavViews } from '@/components/nav-views';
 import {
     Sidebar,
     SidebarContent,
@@ -11,17 +12,17 @@ import {
     SidebarMenuItem,
 } from '@/components/ui/sidebar';
 import { dashboard } from '@/routes';
-import { type NavItem } from '@/types';
-import { Link } from '@inertiajs/react';
-import { BookOpen, ClipboardList, ListTodo, Folder, LayoutGrid } from 'lucide-react';
+import { type NavItem, type SharedData } from '@/types';
+import { Link, usePage } from '@inertiajs/react';
+import { BookOpen, CalendarDays, ClipboardList, ListTodo, Folder, LayoutGrid, Trash2 } from 'lucide-react';
 import AppLogo from './app-logo';
 
 const mainNavItems: NavItem[] = [
-    // {
-    //     title: 'Dashboard',
-    //     href: dashboard(),
-    //     icon: LayoutGrid,
-    // },
+    {
+        title: 'Dashboard',
+        href: dashboard(),
+        icon: LayoutGrid,
+    },
     {
         title: 'Lists',
         href: '/lists',
@@ -32,6 +33,16 @@ const mainNavItems: NavItem[] = [
         href: '/tasks',
         icon: ListTodo,
     },
+    {
+        title: 'Calendar',
+        href: '/calendar',
+        icon: CalendarDays,
+    },
+    {
+        title: 'Trash',
+        href: '/trash',
+        icon: Trash2,
+    },
 ];
 
 // const footerNavItems: NavItem[] = [
@@ -48,6 +59,8 @@ const mainNavItems: NavItem[] = [
 // ];
 
 export function AppSidebar() {
+    const { views } = usePage<SharedData>().props;
+
     return (
         <Sidebar collapsible="icon" variant="inset">
             <SidebarHeader>
@@ -64,6 +77,7 @@ export function AppSidebar() {
 
             <SidebarContent>
                 <NavMain items={mainNavItems} />
+                <NavViews views={views} />
             </SidebarContent>
 
             <SidebarFooter>
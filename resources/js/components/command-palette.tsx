@@ -0,0 +1,305 @@
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { useAppearance } from '@/hooks/use-appearance';
+import { fuzzyScore } from '@/lib/fuzzy';
+import { cn } from '@/lib/utils';
+import { type SharedData } from '@/types';
+import { router, usePage } from '@inertiajs/react';
+import {
+    Bell,
+    Bookmark,
+    CalendarDays,
+    CheckCircle2,
+    ClipboardList,
+    KeyRound,
+    LayoutGrid,
+    ListTodo,
+    type LucideIcon,
+    Moon,
+    Palette,
+    Plus,
+    Search,
+    ShieldCheck,
+    Tag,
+    Trash2,
+    User,
+} from 'lucide-react';
+import { type KeyboardEvent, useEffect, useMemo, useState } from 'react';
+
+interface Command {
+    id: string;
+    group: string;
+    label: string;
+    icon: LucideIcon;
+    keywords?: string;
+    run: () => void;
+}
+
+interface PaletteData {
+    lists: { id: number; title: string }[];
+    tasks: {
+        id: number;
+        title: string;
+        is_completed: boolean;
+        list: { id: number; title: string };
+    }[];
+}
+
+const MAX_RESULTS = 50;
+
+const pages: [string, string, LucideIcon][] = [
+    ['Dashboard', '/dashboard', LayoutGrid],
+    ['Lists', '/lists', ClipboardList],
+    ['Tasks', '/tasks', ListTodo],
+    ['Calendar', '/calendar', CalendarDays],
+    ['Trash', '/trash', Trash2],
+];
+
+const settings: [string, string, LucideIcon][] = [
+    ['Profile', '/settings/profile', User],
+    ['Password', '/settings/password', KeyRound],
+    ['Appearance', '/settings/appearance', Palette],
+    ['Notifications', '/settings/notifications', Bell],
+    ['Two-factor authentication', '/settings/two-factor', ShieldCheck],
+    ['Tags', '/settings/tags', Tag],
+];
+
+/**
+ * A Ctrl/Cmd+K launcher that fuzzy-searches pages, settings, saved views,
+ * lists, tasks and a few common actions.
+ */
+export default function CommandPalette() {
+    const { views, palette } = usePage<
+        SharedData & { palette?: PaletteData | null }
+    >().props;
+    const { updateAppearance } = useAppearance();
+    const [open, setOpen] = useState(false);
+    const [query, setQuery] = useState('');
+    const [active, setActive] = useState(0);
+
+    useEffect(() => {
+        const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+            if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault();
+                setOpen((current) => !current);
+                setQuery('');
+                setActive(0);
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    const handleOpenChange = (value: boolean) => {
+        setOpen(value);
+        setQuery('');
+        setActive(0);
+    };
+
+    // The lists and tasks are only sent once the palette is opened.
+    useEffect(() => {
+        if (open) {
+            router.reload({ only: ['palette'] });
+        }
+    }, [open]);
+
+    const commands = useMemo<Command[]>(() => {
+        const visit = (href: string) => () => router.visit(href);
+
+        return [
+            {
+                id: 'action-new-task',
+                group: 'Action',
+                label: 'New task',
+                icon: Plus,
+                keywords: 'create add',
+                run: () => router.visit('/tasks', { data: { create: 1 } }),
+            },
+            {
+                id: 'action-dark-mode',
+                group: 'Action',
+                label: 'Toggle dark mode',
+                icon: Moon,
+                keywords: 'theme light appearance',
+                run: () =>
+                    updateAppearance(
+                        document.documentElement.classList.contains('dark')
+                            ? 'light'
+                            : 'dark',
+                    ),
+            },
+            {
+                id: 'action-trash',
+                group: 'Action',
+                label: 'Go to Trash',
+                icon: Trash2,
+                keywords: 'deleted restore',
+                run: visit('/trash'),
+            },
+            ...pages.map(([label, href, icon]) => ({
+                id: `page-${href}`,
+                group: 'Page',
+                label,
+                icon,
+                run: visit(href),
+            })),
+            ...settings.map(([label, href, icon]) => ({
+                id: `settings-${href}`,
+                group: 'Settings',
+                label,
+                icon,
+                keywords: 'settings',
+                run: visit(href),
+            })),
+            ...views.map((view) => ({
+                id: `view-${view.key}`,
+                group: 'View',
+                label: view.name,
+                icon: Bookmark,
+                run: visit(view.href),
+            })),
+            ...(palette?.lists ?? []).map((list) => ({
+                id: `list-${list.id}`,
+                group: 'List',
+                label: list.title,
+                icon: ClipboardList,
+                run: visit(`/lists/${list.id}`),
+            })),
+            ...(palette?.tasks ?? []).map((task) => ({
+                id: `task-${task.id}`,
+                group: task.list.title,
+                label: task.title,
+                icon: task.is_completed ? CheckCircle2 : ListTodo,
+                run: visit(`/tasks/${task.id}`),
+            })),
+        ];
+    }, [views, palette, updateAppearance]);
+
+    const results = useMemo(() => {
+        if (query.trim() === '') {
+            return commands
+                .filter((command) => !command.id.startsWith('task-'))
+                .slice(0, MAX_RESULTS);
+        }
+
+        return commands
+            .map((command) => ({
+                command,
+                score: Math.max(
+                    fuzzyScore(query, command.label) ?? -Infinity,
+                    (fuzzyScore(query, command.keywords ?? '') ?? -Infinity) -
+                        5,
+                ),
+            }))
+            .filter(({ score }) => score > -Infinity)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, MAX_RESULTS)
+            .map(({ command }) => command);
+    }, [commands, query]);
+
+    const run = (command: Command) => {
+        setOpen(false);
+        command.run();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+
+            if (results.length > 0) {
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setActive(
+                    (current) =>
+                        (current + step + results.length) % results.length,
+                );
+            }
+        } else if (e.key === 'Enter' && results[active]) {
+            e.preventDefault();
+            run(results[active]);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="top-[20%] translate-y-0 gap-0 overflow-hidden p-0 sm:max-w-xl">
+                <DialogTitle className="sr-only">Command palette</DialogTitle>
+                <DialogDescription className="sr-only">
+                    Search for pages, lists, tasks and actions.
+                </DialogDescription>
+                <div className="flex items-center gap-2 border-b pr-12 pl-4">
+                    <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <input
+                        autoFocus
+                        value={query}
+                        onChange={(e) => {
+                            setQuery(e.target.value);
+                            setActive(0);
+                        }}
+                        onKeyDown={handleKeyDown}
+                        placeholder="Type a command or search…"
+                        role="combobox"
+                        aria-expanded
+                        aria-controls="command-palette-results"
+                        aria-activedescendant={
+                            results[active]
+                                ? `command-${results[active].id}`
+                                : undefined
+                        }
+                        className="h-12 flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+                    />
+                </div>
+                <ul
+                    id="command-palette-results"
+                    role="listbox"
+                    className="max-h-80 overflow-y-auto p-2"
+                >
+                    {results.length === 0 && (
+                        <li className="py-6 text-center text-sm text-muted-foreground">
+                            No results found.
+                        </li>
+                    )}
+                    {results.map((command, index) => (
+                        <li
+                            key={command.id}
+                            id={`command-${command.id}`}
+                            role="option"
+                            aria-selected={index === active}
+                            ref={(element) => {
+                                if (index === active) {
+                                    element?.scrollIntoView({
+                                        block: 'nearest',
+                                    });
+                                }
+                            }}
+                            onMouseMove={() => setActive(index)}
+                            onClick={() => run(command)}
+                            className={cn(
+                                'flex cursor-pointer items-center gap-3 rounded-md px-3 py-2 text-sm',
+                                index === active && 'bg-accent',
+                            )}
+                        >
+                            <command.icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                            <span className="flex-1 truncate">
+                                {command.label}
+                            </span>
+                            <span className="shrink-0 text-xs text-muted-foreground">
+                                {command.group}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+                <div className="flex gap-4 border-t px-4 py-2 text-xs text-muted-foreground">
+                    <span>↑↓ to navigate</span>
+                    <span>↵ to open</span>
+                    <span>esc to close</span>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
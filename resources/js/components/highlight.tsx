@@ -0,0 +1,42 @@
+import { Fragment } from 'react';
+
+interface HighlightProps {
+    text: string;
+    words: string[];
+}
+
+const escape = (word: string) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Mark the searched-for words wherever they start a word in the text.
+ */
+export default function Highlight({ text, words }: HighlightProps) {
+    const patterns = words
+        .map((word) => word.trim())
+        .filter(Boolean)
+        .map(escape)
+        .sort((a, b) => b.length - a.length);
+
+    if (patterns.length === 0) {
+        return text;
+    }
+
+    const matcher = new RegExp(
+        `(?<![\\p{L}\\p{N}])(${patterns.join('|')})`,
+        'giu',
+    );
+    const parts = text.split(matcher);
+
+    return parts.map((part, index) =>
+        index % 2 === 1 ? (
+            <mark
+                key={index}
+                className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-500/40"
+            >
+                {part}
+            </mark>
+        ) : (
+            <Fragment key={index}>{part}</Fragment>
+        ),
+    );
+}
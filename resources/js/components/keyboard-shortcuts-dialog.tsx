@@ -0,0 +1,72 @@
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Link } from '@inertiajs/react';
+
+export interface ShortcutHelp {
+    keys: string[];
+    description: string;
+}
+
+interface KeyboardShortcutsDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    shortcuts: ShortcutHelp[];
+}
+
+/**
+ * The cheat sheet shown when pressing "?".
+ */
+export default function KeyboardShortcutsDialog({
+    open,
+    onOpenChange,
+    shortcuts,
+}: KeyboardShortcutsDialogProps) {
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Keyboard shortcuts</DialogTitle>
+                    <DialogDescription>
+                        Shortcuts are ignored while typing in a field. You can
+                        turn them off in your{' '}
+                        <Link
+                            href="/settings/appearance"
+                            className="underline underline-offset-4"
+                        >
+                            appearance settings
+                        </Link>
+                        .
+                    </DialogDescription>
+                </DialogHeader>
+                <dl className="divide-y text-sm">
+                    {shortcuts.map((shortcut) => (
+                        <div
+                            key={shortcut.description}
+                            className="flex items-center justify-between gap-4 py-2"
+                        >
+                            <dt>{shortcut.description}</dt>
+                            <dd className="flex items-center gap-1 text-xs text-muted-foreground">
+                                {shortcut.keys.map((key, index) => (
+                                    <span
+                                        key={key}
+                                        className="flex items-center gap-1"
+                                    >
+                                        {index > 0 && 'then'}
+                                        <kbd className="min-w-6 rounded border bg-muted px-1.5 py-0.5 text-center font-mono text-foreground">
+                                            {key}
+                                        </kbd>
+                                    </span>
+                                ))}
+                            </dd>
+                        </div>
+                    ))}
+                </dl>
+            </DialogContent>
+        </Dialog>
+    );
+}
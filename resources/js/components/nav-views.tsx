@@ -0,0 +1,84 @@
+import {
+    SidebarGroup,
+    SidebarGroupLabel,
+    SidebarMenu,
+    SidebarMenuAction,
+    SidebarMenuBadge,
+    SidebarMenuButton,
+    SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import { cn } from '@/lib/utils';
+import { type SavedTaskView } from '@/types';
+import { Link, router, usePage } from '@inertiajs/react';
+import {
+    AlarmClock,
+    Bookmark,
+    CalendarClock,
+    CheckCircle2,
+    Sun,
+    X,
+} from 'lucide-react';
+
+const smartViewIcons: Record<string, typeof Bookmark> = {
+    today: Sun,
+    upcoming: CalendarClock,
+    overdue: AlarmClock,
+    completed: CheckCircle2,
+};
+
+export function NavViews({ views = [] }: { views: SavedTaskView[] }) {
+    const page = usePage();
+
+    const handleDelete = (view: SavedTaskView) => {
+        if (confirm(`Delete the "${view.name}" view?`)) {
+            router.delete(`/views/${view.id}`, { preserveScroll: true });
+        }
+    };
+
+    return (
+        <SidebarGroup className="px-2 py-0">
+            <SidebarGroupLabel>Views</SidebarGroupLabel>
+            <SidebarMenu>
+                {views.map((view) => {
+                    const Icon = smartViewIcons[view.key] ?? Bookmark;
+
+                    return (
+                        <SidebarMenuItem key={view.key}>
+                            <SidebarMenuButton
+                                asChild
+                                isActive={page.url === view.href}
+                                tooltip={{ children: view.name }}
+                            >
+                                <Link href={view.href} prefetch>
+                                    <Icon />
+                                    <span>{view.name}</span>
+                                </Link>
+                            </SidebarMenuButton>
+                            {view.count > 0 && (
+                                <SidebarMenuBadge
+                                    className={cn(
+                                        view.id !== null &&
+                                            'group-hover/menu-item:opacity-0',
+                                        view.key === 'overdue' &&
+                                            'text-red-500',
+                                    )}
+                                >
+                                    {view.count}
+                                </SidebarMenuBadge>
+                            )}
+                            {view.id !== null && (
+                                <SidebarMenuAction
+                                    showOnHover
+                                    onClick={() => handleDelete(view)}
+                                    aria-label={`Delete ${view.name}`}
+                                >
+                                    <X />
+                                </SidebarMenuAction>
+                            )}
+                        </SidebarMenuItem>
+                    );
+                })}
+            </SidebarMenu>
+        </SidebarGroup>
+    );
+}
@@ -0,0 +1,93 @@
+import { describeReminder } from '@/components/reminder-fields';
+import { Button } from '@/components/ui/button';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { type SharedData } from '@/types';
+import { Link, router, usePage } from '@inertiajs/react';
+import { Bell } from 'lucide-react';
+
+/**
+ * The unread task reminders, each opening its task and marking it read.
+ */
+export default function NotificationBell() {
+    const { notifications } = usePage<SharedData>().props;
+
+    const handleReadAll = () => {
+        router.post(
+            '/notifications/read',
+            {},
+            {
+                preserveScroll: true,
+                preserveState: true,
+            },
+        );
+    };
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className="relative"
+                    aria-label={`Notifications (${notifications.length} unread)`}
+                >
+                    <Bell className="h-5 w-5" />
+                    {notifications.length > 0 && (
+                        <span className="absolute top-1.5 right-1.5 h-2 w-2 rounded-full bg-red-500" />
+                    )}
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-80">
+                <DropdownMenuLabel className="flex items-center justify-between">
+                    Reminders
+                    {notifications.length > 0 && (
+                        <button
+                            type="button"
+                            onClick={handleReadAll}
+                            className="text-xs font-normal text-muted-foreground hover:text-foreground"
+                        >
+                            Mark all as read
+                        </button>
+                    )}
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {notifications.length === 0 && (
+                    <p className="px-2 py-4 text-center text-sm text-muted-foreground">
+                        You're all caught up.
+                    </p>
+                )}
+                {notifications.map((notification) => (
+                    <DropdownMenuItem key={notification.id} asChild>
+                        <Link
+                            href={`/notifications/${notification.id}`}
+                            className="flex w-full flex-col items-start gap-0.5"
+                        >
+                            <span className="font-medium">
+                                {notification.data.title}
+                            </span>
+                            <span className="text-xs text-muted-foreground">
+                                {describeReminder(
+                                    notification.data.minutes_before,
+                                )}
+                                {notification.data.due_at &&
+                                    ` · due ${new Date(
+                                        notification.data.due_at,
+                                    ).toLocaleString([], {
+                                        dateStyle: 'medium',
+                                        timeStyle: 'short',
+                                    })}`}
+                            </span>
+                        </Link>
+                    </DropdownMenuItem>
+                ))}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
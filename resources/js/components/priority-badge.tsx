@@ -0,0 +1,38 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { type TaskPriority } from '@/types';
+import { Flag } from 'lucide-react';
+
+export const priorityLabels: Record<TaskPriority, string> = {
+    none: 'None',
+    low: 'Low',
+    medium: 'Medium',
+    high: 'High',
+    urgent: 'Urgent',
+};
+
+const priorityClasses: Record<TaskPriority, string> = {
+    none: 'border-border text-muted-foreground',
+    low: 'border-transparent bg-sky-500/15 text-sky-700 dark:text-sky-300',
+    medium: 'border-transparent bg-amber-500/15 text-amber-700 dark:text-amber-300',
+    high: 'border-transparent bg-orange-500/15 text-orange-700 dark:text-orange-300',
+    urgent: 'border-transparent bg-red-500/15 text-red-700 dark:text-red-300',
+};
+
+export default function PriorityBadge({
+    priority,
+    className,
+}: {
+    priority: TaskPriority;
+    className?: string;
+}) {
+    return (
+        <Badge
+            variant="outline"
+            className={cn(priorityClasses[priority], className)}
+        >
+            <Flag />
+            {priorityLabels[priority]}
+        </Badge>
+    );
+}
@@ -0,0 +1,160 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { type Recurrence, type RecurrenceFrequency } from '@/types';
+
+const weekdayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const units: Record<RecurrenceFrequency, [string, string]> = {
+    daily: ['day', 'days'],
+    weekly: ['week', 'weeks'],
+    monthly: ['month', 'months'],
+};
+
+export function describeRecurrence(recurrence: Recurrence): string {
+    const interval = recurrence.interval ?? 1;
+    const [singular, plural] = units[recurrence.frequency];
+    let description =
+        interval === 1 ? `Every ${singular}` : `Every ${interval} ${plural}`;
+
+    if (recurrence.frequency === 'weekly' && recurrence.weekdays?.length) {
+        description += ` on ${recurrence.weekdays
+            .map((day) => weekdayLabels[day])
+            .join(', ')}`;
+    }
+
+    if (recurrence.frequency === 'monthly' && recurrence.month_day) {
+        description += ` on day ${recurrence.month_day}`;
+    }
+
+    return description;
+}
+
+export default function RecurrenceFields({
+    value,
+    onChange,
+}: {
+    value: Recurrence | null;
+    onChange: (value: Recurrence | null) => void;
+}) {
+    const toggleWeekday = (current: Recurrence, day: number) => {
+        const weekdays = current.weekdays ?? [];
+
+        onChange({
+            ...current,
+            weekdays: weekdays.includes(day)
+                ? weekdays.filter((d) => d !== day)
+                : [...weekdays, day].sort((a, b) => a - b),
+        });
+    };
+
+    return (
+        <div className="space-y-2">
+            <Label htmlFor="recurrence">Repeat</Label>
+            <Select
+                value={value?.frequency ?? 'never'}
+                onValueChange={(frequency) =>
+                    onChange(
+                        frequency === 'never'
+                            ? null
+                            : {
+                                  frequency: frequency as RecurrenceFrequency,
+                                  interval: value?.interval ?? 1,
+                              },
+                    )
+                }
+            >
+                <SelectTrigger
+                    id="recurrence"
+                    className="focus:ring-2 focus:ring-primary"
+                >
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value="never">Does not repeat</SelectItem>
+                    <SelectItem value="daily">Daily</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                </SelectContent>
+            </Select>
+
+            {value && (
+                <div className="space-y-2 rounded-md border p-3">
+                    <div className="flex items-center gap-2 text-sm">
+                        <span>Every</span>
+                        <Input
+                            type="number"
+                            min={1}
+                            max={365}
+                            value={value.interval ?? 1}
+                            onChange={(e) =>
+                                onChange({
+                                    ...value,
+                                    interval: Math.max(
+                                        1,
+                                        Number(e.target.value) || 1,
+                                    ),
+                                })
+                            }
+                            className="h-8 w-20"
+                        />
+                        <span>
+                            {(value.interval ?? 1) === 1
+                                ? units[value.frequency][0]
+                                : units[value.frequency][1]}
+                        </span>
+                    </div>
+
+                    {value.frequency === 'weekly' && (
+                        <div className="flex flex-wrap gap-1">
+                            {weekdayLabels.map((label, day) => (
+                                <button
+                                    key={label}
+                                    type="button"
+                                    onClick={() => toggleWeekday(value, day)}
+                                    className={cn(
+                                        'rounded-md border px-2 py-1 text-xs transition-colors',
+                                        value.weekdays?.includes(day)
+                                            ? 'border-primary bg-primary text-primary-foreground'
+                                            : 'hover:bg-muted',
+                                    )}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    {value.frequency === 'monthly' && (
+                        <div className="flex items-center gap-2 text-sm">
+                            <span>On day</span>
+                            <Input
+                                type="number"
+                                min={1}
+                                max={31}
+                                value={value.month_day ?? ''}
+                                placeholder="Due day"
+                                onChange={(e) =>
+                                    onChange({
+                                        ...value,
+                                        month_day: e.target.value
+                                            ? Number(e.target.value)
+                                            : undefined,
+                                    })
+                                }
+                                className="h-8 w-24"
+                            />
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
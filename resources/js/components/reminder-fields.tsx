@@ -0,0 +1,78 @@
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Bell } from 'lucide-react';
+
+const units: [number, string][] = [
+    [10080, 'week'],
+    [1440, 'day'],
+    [60, 'hour'],
+    [1, 'minute'],
+];
+
+export function describeReminder(minutesBefore: number): string {
+    if (minutesBefore === 0) {
+        return 'At due time';
+    }
+
+    const [size, unit] = units.find(([size]) => minutesBefore % size === 0)!;
+    const count = minutesBefore / size;
+
+    return `${count} ${unit}${count === 1 ? '' : 's'} before`;
+}
+
+/**
+ * Picks any number of reminders from the preset offsets. Reminders count
+ * back from the due time, so they need a due date to go off.
+ */
+export default function ReminderFields({
+    presets,
+    value,
+    onChange,
+    hasDueDate,
+}: {
+    presets: number[];
+    value: number[];
+    onChange: (value: number[]) => void;
+    hasDueDate: boolean;
+}) {
+    // Keep any offset set outside the presets selectable so it can be removed.
+    const options = [...new Set([...presets, ...value])].sort((a, b) => a - b);
+
+    const toggle = (minutes: number) =>
+        onChange(
+            value.includes(minutes)
+                ? value.filter((m) => m !== minutes)
+                : [...value, minutes].sort((a, b) => a - b),
+        );
+
+    return (
+        <div className="space-y-2">
+            <Label>Reminders</Label>
+            <div className="flex flex-wrap gap-1.5">
+                {options.map((minutes) => (
+                    <button
+                        key={minutes}
+                        type="button"
+                        onClick={() => toggle(minutes)}
+                        aria-pressed={value.includes(minutes)}
+                    >
+                        <Badge
+                            variant={
+                                value.includes(minutes) ? 'default' : 'outline'
+                            }
+                            className="cursor-pointer"
+                        >
+                            <Bell className="h-3 w-3" />
+                            {describeReminder(minutes)}
+                        </Badge>
+                    </button>
+                ))}
+            </div>
+            {value.length > 0 && !hasDueDate && (
+                <p className="text-sm text-muted-foreground">
+                    Reminders go off once the task has a due date.
+                </p>
+            )}
+        </div>
+    );
+}
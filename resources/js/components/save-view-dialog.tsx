@@ -0,0 +1,77 @@
+import InputError from '@/components/input-error';
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useForm } from '@inertiajs/react';
+import { Bookmark } from 'lucide-react';
+import { type FormEvent, useState } from 'react';
+
+interface SaveViewDialogProps {
+    filters: Record<string, unknown>;
+}
+
+export default function SaveViewDialog({ filters }: SaveViewDialogProps) {
+    const [open, setOpen] = useState(false);
+    const { data, setData, post, processing, errors, reset, transform } =
+        useForm({ name: '' });
+
+    transform((data) => ({ ...data, filters }));
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+
+        post('/views', {
+            preserveScroll: true,
+            onSuccess: () => {
+                reset();
+                setOpen(false);
+            },
+        });
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                <Button variant="outline">
+                    <Bookmark className="mr-1 h-4 w-4" />
+                    Save view
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                    <DialogTitle className="text-lg">Save view</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="view-name">Name</Label>
+                        <Input
+                            id="view-name"
+                            value={data.name}
+                            onChange={(e) => setData('name', e.target.value)}
+                            placeholder="e.g. Work this week"
+                            required
+                        />
+                        <InputError message={errors.name} />
+                        <p className="text-sm text-muted-foreground">
+                            The current search, filters and sort are saved and
+                            pinned in the sidebar.
+                        </p>
+                    </div>
+                    <DialogFooter>
+                        <Button type="submit" disabled={processing}>
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
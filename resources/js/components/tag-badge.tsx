@@ -0,0 +1,27 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { type Tag } from '@/types';
+
+export default function TagBadge({
+    tag,
+    className,
+    ...props
+}: { tag: Pick<Tag, 'name' | 'color'> } & React.ComponentProps<'span'>) {
+    return (
+        <Badge
+            variant="outline"
+            className={cn('gap-1.5', className)}
+            style={{
+                borderColor: `${tag.color}66`,
+                backgroundColor: `${tag.color}1a`,
+            }}
+            {...props}
+        >
+            <span
+                className="size-2 rounded-full"
+                style={{ backgroundColor: tag.color }}
+            />
+            {tag.name}
+        </Badge>
+    );
+}
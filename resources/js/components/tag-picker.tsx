@@ -0,0 +1,53 @@
+import TagBadge from '@/components/tag-badge';
+import { cn } from '@/lib/utils';
+import { type Tag } from '@/types';
+import { Link } from '@inertiajs/react';
+
+export default function TagPicker({
+    tags,
+    value,
+    onChange,
+}: {
+    tags: Tag[];
+    value: number[];
+    onChange: (value: number[]) => void;
+}) {
+    if (tags.length === 0) {
+        return (
+            <p className="text-sm text-muted-foreground">
+                No tags yet.{' '}
+                <Link href="/settings/tags" className="underline">
+                    Create one
+                </Link>
+            </p>
+        );
+    }
+
+    const toggle = (id: number) =>
+        onChange(
+            value.includes(id)
+                ? value.filter((tagId) => tagId !== id)
+                : [...value, id],
+        );
+
+    return (
+        <div className="flex flex-wrap gap-1.5">
+            {tags.map((tag) => (
+                <button
+                    key={tag.id}
+                    type="button"
+                    onClick={() => toggle(tag.id)}
+                    aria-pressed={value.includes(tag.id)}
+                >
+                    <TagBadge
+                        tag={tag}
+                        className={cn(
+                            'cursor-pointer transition-opacity',
+                            !value.includes(tag.id) && 'opacity-40',
+                        )}
+                    />
+                </button>
+            ))}
+        </div>
+    );
+}
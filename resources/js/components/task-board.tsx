@@ -0,0 +1,181 @@
+import PriorityBadge from '@/components/priority-badge';
+import TagBadge from '@/components/tag-badge';
+import { ChecklistProgress } from '@/components/task-checklist';
+import { Badge } from '@/components/ui/badge';
+import { parseDate } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+import { type Task, type TaskList, type TaskStatus } from '@/types';
+import { router } from '@inertiajs/react';
+import { Calendar, List } from 'lucide-react';
+import { useState } from 'react';
+
+export type BoardGroup = 'list' | 'status';
+
+export const statusLabels: Record<TaskStatus, string> = {
+    todo: 'To Do',
+    in_progress: 'In Progress',
+    done: 'Done',
+};
+
+interface Column {
+    key: string;
+    title: string;
+    tasks: Task[];
+}
+
+interface TaskBoardProps {
+    tasks: Task[];
+    lists: TaskList[];
+    statuses: TaskStatus[];
+    group: BoardGroup;
+    onEdit: (task: Task) => void;
+}
+
+export default function TaskBoard({
+    tasks,
+    lists,
+    statuses,
+    group,
+    onEdit,
+}: TaskBoardProps) {
+    const [draggingId, setDraggingId] = useState<number | null>(null);
+    const [overColumn, setOverColumn] = useState<string | null>(null);
+
+    const columns: Column[] =
+        group === 'list'
+            ? lists.map((list) => ({
+                  key: list.id.toString(),
+                  title: list.title,
+                  tasks: tasks.filter((task) => task.list_id === list.id),
+              }))
+            : statuses.map((status) => ({
+                  key: status,
+                  title: statusLabels[status],
+                  tasks: tasks.filter((task) => task.status === status),
+              }));
+
+    const handleDrop = (column: Column) => {
+        const task = tasks.find((task) => task.id === draggingId);
+
+        setDraggingId(null);
+        setOverColumn(null);
+
+        if (!task) {
+            return;
+        }
+
+        const current =
+            group === 'list' ? task.list_id.toString() : task.status;
+
+        if (current === column.key) {
+            return;
+        }
+
+        router.patch(
+            `/tasks/${task.id}/move`,
+            group === 'list'
+                ? { list_id: Number(column.key) }
+                : { status: column.key },
+            {
+                preserveState: true,
+                preserveScroll: true,
+            },
+        );
+    };
+
+    return (
+        <div className="flex gap-4 overflow-x-auto pb-2">
+            {columns.map((column) => (
+                <div
+                    key={column.key}
+                    onDragOver={(e) => {
+                        e.preventDefault();
+                        setOverColumn(column.key);
+                    }}
+                    onDragLeave={() => setOverColumn(null)}
+                    onDrop={(e) => {
+                        e.preventDefault();
+                        handleDrop(column);
+                    }}
+                    className={cn(
+                        'flex w-72 shrink-0 flex-col gap-3 rounded-xl border bg-muted/30 p-3 transition-colors',
+                        overColumn === column.key &&
+                            'border-primary bg-primary/5',
+                    )}
+                >
+                    <div className="flex items-center justify-between px-1">
+                        <h2 className="text-sm font-semibold">
+                            {column.title}
+                        </h2>
+                        <Badge variant="secondary">{column.tasks.length}</Badge>
+                    </div>
+
+                    {column.tasks.map((task) => (
+                        <div
+                            key={task.id}
+                            draggable
+                            onDragStart={(e) => {
+                                e.dataTransfer.effectAllowed = 'move';
+                                setDraggingId(task.id);
+                            }}
+                            onDragEnd={() => {
+                                setDraggingId(null);
+                                setOverColumn(null);
+                            }}
+                            onClick={() => onEdit(task)}
+                            className={cn(
+                                'cursor-grab rounded-lg border bg-background p-3 shadow-xs transition-opacity active:cursor-grabbing',
+                                draggingId === task.id && 'opacity-50',
+                            )}
+                        >
+                            <p
+                                className={cn(
+                                    'text-sm font-medium',
+                                    task.is_completed &&
+                                        'text-muted-foreground line-through',
+                                )}
+                            >
+                                {task.title}
+                            </p>
+                            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                                {group === 'status' ? (
+                                    <span className="flex items-center gap-1">
+                                        <List className="h-3 w-3" />
+                                        {task.list.title}
+                                    </span>
+                                ) : (
+                                    <Badge variant="outline">
+                                        {statusLabels[task.status]}
+                                    </Badge>
+                                )}
+                                {task.priority !== 'none' && (
+                                    <PriorityBadge priority={task.priority} />
+                                )}
+                                {task.tags.map((tag) => (
+                                    <TagBadge key={tag.id} tag={tag} />
+                                ))}
+                                <ChecklistProgress
+                                    items={task.checklist_items}
+                                />
+                                {task.due_date && (
+                                    <span className="flex items-center gap-1">
+                                        <Calendar className="h-3 w-3" />
+                                        {parseDate(
+                                            task.due_date,
+                                        ).toLocaleDateString()}
+                                    </span>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+
+                    {column.tasks.length === 0 && (
+                        <p className="px-1 py-6 text-center text-xs text-muted-foreground">
+                            Drop tasks here
+                        </p>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
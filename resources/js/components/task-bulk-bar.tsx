@@ -0,0 +1,174 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { type Tag, type TaskList } from '@/types';
+import { router } from '@inertiajs/react';
+import { CheckCircle2, RotateCcw, Trash2, X } from 'lucide-react';
+import { useState } from 'react';
+
+export type BulkAction =
+    | 'complete'
+    | 'reopen'
+    | 'move'
+    | 'due_date'
+    | 'tag'
+    | 'delete';
+
+interface TaskBulkBarProps {
+    selected: number[];
+    lists: TaskList[];
+    tags: Tag[];
+    onClear: () => void;
+}
+
+export default function TaskBulkBar({
+    selected,
+    lists,
+    tags,
+    onClear,
+}: TaskBulkBarProps) {
+    const [dueDate, setDueDate] = useState('');
+    const [processing, setProcessing] = useState(false);
+
+    const run = (
+        action: BulkAction,
+        payload: Record<string, number | string | null> = {},
+    ) => {
+        router.patch(
+            '/tasks/batch',
+            { ids: selected, action, ...payload },
+            {
+                preserveScroll: true,
+                onStart: () => setProcessing(true),
+                onFinish: () => setProcessing(false),
+                onSuccess: () => onClear(),
+            },
+        );
+    };
+
+    const handleDelete = () => {
+        if (
+            confirm(
+                selected.length === 1
+                    ? 'Move the selected task to the trash?'
+                    : `Move ${selected.length} tasks to the trash?`,
+            )
+        ) {
+            run('delete');
+        }
+    };
+
+    return (
+        <div className="sticky top-4 z-40 flex flex-wrap items-center gap-2 rounded-xl border bg-background p-3 shadow-lg">
+            <span className="px-2 text-sm font-medium">
+                {selected.length} selected
+            </span>
+
+            <Button
+                size="sm"
+                variant="outline"
+                disabled={processing}
+                onClick={() => run('complete')}
+            >
+                <CheckCircle2 className="mr-1 h-4 w-4" />
+                Complete
+            </Button>
+            <Button
+                size="sm"
+                variant="outline"
+                disabled={processing}
+                onClick={() => run('reopen')}
+            >
+                <RotateCcw className="mr-1 h-4 w-4" />
+                Reopen
+            </Button>
+
+            <Select
+                value=""
+                disabled={processing}
+                onValueChange={(value) =>
+                    run('move', { list_id: Number(value) })
+                }
+            >
+                <SelectTrigger className="h-8 w-36">
+                    <SelectValue placeholder="Move to list" />
+                </SelectTrigger>
+                <SelectContent>
+                    {lists.map((list) => (
+                        <SelectItem key={list.id} value={list.id.toString()}>
+                            {list.title}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            {tags.length > 0 && (
+                <Select
+                    value=""
+                    disabled={processing}
+                    onValueChange={(value) =>
+                        run('tag', { tag_id: Number(value) })
+                    }
+                >
+                    <SelectTrigger className="h-8 w-32">
+                        <SelectValue placeholder="Add tag" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {tags.map((tag) => (
+                            <SelectItem key={tag.id} value={tag.id.toString()}>
+                                {tag.name}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            )}
+
+            <div className="flex items-center gap-1">
+                <Input
+                    type="date"
+                    value={dueDate}
+                    onChange={(e) => setDueDate(e.target.value)}
+                    aria-label="Due date"
+                    className="h-8 w-36"
+                />
+                <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={processing}
+                    onClick={() =>
+                        run('due_date', { due_date: dueDate || null })
+                    }
+                >
+                    {dueDate ? 'Set due date' : 'Clear due date'}
+                </Button>
+            </div>
+
+            <Button
+                size="sm"
+                variant="ghost"
+                disabled={processing}
+                onClick={handleDelete}
+                className="hover:bg-destructive/10 hover:text-destructive"
+            >
+                <Trash2 className="mr-1 h-4 w-4" />
+                Delete
+            </Button>
+
+            <Button
+                size="icon"
+                variant="ghost"
+                onClick={onClear}
+                className="ml-auto h-8 w-8"
+                aria-label="Clear selection"
+            >
+                <X className="h-4 w-4" />
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,134 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { type ChecklistItem, type Task } from '@/types';
+import { router } from '@inertiajs/react';
+import { ListChecks, Plus, X } from 'lucide-react';
+import { useState } from 'react';
+
+export function ChecklistProgress({ items }: { items: ChecklistItem[] }) {
+    if (items.length === 0) {
+        return null;
+    }
+
+    const done = items.filter((item) => item.is_completed).length;
+
+    return (
+        <div
+            className="flex items-center gap-2 text-xs text-muted-foreground"
+            title={`${done} of ${items.length} checklist items done`}
+        >
+            <ListChecks className="h-3.5 w-3.5" />
+            <div className="h-1.5 w-12 overflow-hidden rounded-full bg-muted">
+                <div
+                    className="h-full rounded-full bg-green-500 transition-all"
+                    style={{ width: `${(done / items.length) * 100}%` }}
+                />
+            </div>
+            <span>
+                {done}/{items.length}
+            </span>
+        </div>
+    );
+}
+
+export default function TaskChecklist({ task }: { task: Task }) {
+    const [title, setTitle] = useState('');
+
+    const options = {
+        preserveState: true,
+        preserveScroll: true,
+    };
+
+    const handleAdd = () => {
+        if (!title.trim()) {
+            return;
+        }
+
+        router.post(
+            `/tasks/${task.id}/checklist-items`,
+            { title },
+            { ...options, onSuccess: () => setTitle('') },
+        );
+    };
+
+    const handleToggle = (item: ChecklistItem, checked: boolean) => {
+        router.put(
+            `/tasks/${task.id}/checklist-items/${item.id}`,
+            { is_completed: checked },
+            options,
+        );
+    };
+
+    const handleDelete = (item: ChecklistItem) => {
+        router.delete(`/tasks/${task.id}/checklist-items/${item.id}`, options);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Checklist</span>
+                <ChecklistProgress items={task.checklist_items} />
+            </div>
+
+            <ul className="space-y-1">
+                {task.checklist_items.map((item) => (
+                    <li
+                        key={item.id}
+                        className="group flex items-center gap-2 rounded-md px-1 py-1 hover:bg-muted/50"
+                    >
+                        <Checkbox
+                            id={`checklist-item-${item.id}`}
+                            checked={item.is_completed}
+                            onCheckedChange={(checked) =>
+                                handleToggle(item, checked === true)
+                            }
+                        />
+                        <label
+                            htmlFor={`checklist-item-${item.id}`}
+                            className={cn(
+                                'flex-1 text-sm',
+                                item.is_completed &&
+                                    'text-muted-foreground line-through',
+                            )}
+                        >
+                            {item.title}
+                        </label>
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDelete(item)}
+                            className="h-6 w-6 opacity-0 group-hover:opacity-100 hover:text-destructive"
+                        >
+                            <X className="h-3 w-3" />
+                        </Button>
+                    </li>
+                ))}
+            </ul>
+
+            <div className="flex gap-2">
+                <Input
+                    value={title}
+                    placeholder="Add an item..."
+                    onChange={(e) => setTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                            e.preventDefault();
+                            handleAdd();
+                        }
+                    }}
+                />
+                <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    onClick={handleAdd}
+                >
+                    <Plus className="h-4 w-4" />
+                </Button>
+            </div>
+        </div>
+    );
+}
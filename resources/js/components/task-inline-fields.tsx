@@ -0,0 +1,162 @@
+import { Input } from '@/components/ui/input';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+} from '@/components/ui/select';
+import { type TaskList } from '@/types';
+import { Calendar, List } from 'lucide-react';
+import { type KeyboardEvent, type ReactNode, useState } from 'react';
+
+/**
+ * A title that turns into a text field when clicked. Enter or leaving the
+ * field saves it, and Escape puts the old title back.
+ */
+export function InlineTitle({
+    value,
+    onSave,
+    children,
+}: {
+    value: string;
+    onSave: (value: string) => void;
+    children: ReactNode;
+}) {
+    const [editing, setEditing] = useState(false);
+    const [draft, setDraft] = useState(value);
+
+    const startEditing = () => {
+        setDraft(value);
+        setEditing(true);
+    };
+
+    const commit = () => {
+        const title = draft.trim();
+
+        setEditing(false);
+
+        if (title !== '' && title !== value) {
+            onSave(title);
+        }
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            commit();
+        } else if (e.key === 'Escape') {
+            setEditing(false);
+        }
+    };
+
+    if (!editing) {
+        return (
+            <button
+                type="button"
+                onClick={startEditing}
+                title="Click to edit"
+                className="cursor-text text-left decoration-dotted underline-offset-4 hover:underline"
+            >
+                {children}
+            </button>
+        );
+    }
+
+    return (
+        <Input
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={handleKeyDown}
+            maxLength={255}
+            aria-label="Title"
+            className="h-8"
+        />
+    );
+}
+
+/**
+ * A due date picker that saves once the field is left or Enter is pressed,
+ * so a date is not sent while it is still being typed. Escape puts the old
+ * date back.
+ */
+export function InlineDueDate({
+    value,
+    onSave,
+}: {
+    value?: string | null;
+    onSave: (value: string | null) => void;
+}) {
+    // Null while the field is untouched, so it follows the saved date.
+    const [draft, setDraft] = useState<string | null>(null);
+
+    const commit = () => {
+        if (draft !== null && draft !== (value ?? '')) {
+            onSave(draft || null);
+        }
+
+        setDraft(null);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            commit();
+        } else if (e.key === 'Escape') {
+            setDraft(null);
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-2">
+            <Calendar className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <Input
+                type="date"
+                value={draft ?? value ?? ''}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={handleKeyDown}
+                aria-label="Due date"
+                className="h-8 w-36 border-transparent px-1 shadow-none hover:border-input"
+            />
+        </div>
+    );
+}
+
+/**
+ * A dropdown that moves the task to another list.
+ */
+export function InlineList({
+    value,
+    lists,
+    onSave,
+    children,
+}: {
+    value: number;
+    lists: TaskList[];
+    onSave: (value: number) => void;
+    children: ReactNode;
+}) {
+    return (
+        <Select
+            value={value.toString()}
+            onValueChange={(listId) => onSave(Number(listId))}
+        >
+            <SelectTrigger
+                aria-label="List"
+                className="h-8 w-auto gap-2 border-transparent px-2 shadow-none hover:border-input"
+            >
+                <List className="h-4 w-4 text-muted-foreground" />
+                <span>{children}</span>
+            </SelectTrigger>
+            <SelectContent>
+                {lists.map((list) => (
+                    <SelectItem key={list.id} value={list.id.toString()}>
+                        {list.title}
+                    </SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+}
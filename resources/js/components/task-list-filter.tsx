@@ -0,0 +1,79 @@
+import { Button } from '@/components/ui/button';
+import {
+    DropdownMenu,
+    DropdownMenuCheckboxItem,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { type TaskList } from '@/types';
+import { ChevronDown, ClipboardList } from 'lucide-react';
+
+interface TaskListFilterProps {
+    lists: TaskList[];
+    selected: number[];
+    onChange: (selected: number[]) => void;
+}
+
+export default function TaskListFilter({
+    lists,
+    selected,
+    onChange,
+}: TaskListFilterProps) {
+    const toggle = (listId: number, checked: boolean) => {
+        onChange(
+            checked
+                ? [...selected, listId]
+                : selected.filter((id) => id !== listId),
+        );
+    };
+
+    const label =
+        selected.length === 0
+            ? 'All Lists'
+            : selected.length === 1
+              ? (lists.find((list) => list.id === selected[0])?.title ??
+                '1 list')
+              : `${selected.length} lists`;
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button
+                    variant="outline"
+                    className="w-[180px] justify-between font-normal"
+                >
+                    <span className="flex min-w-0 items-center gap-2">
+                        <ClipboardList className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        <span className="truncate">{label}</span>
+                    </span>
+                    <ChevronDown className="h-4 w-4 opacity-50" />
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-56">
+                <DropdownMenuLabel>Filter by list</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {lists.map((list) => (
+                    <DropdownMenuCheckboxItem
+                        key={list.id}
+                        checked={selected.includes(list.id)}
+                        onCheckedChange={(checked) => toggle(list.id, checked)}
+                        onSelect={(e) => e.preventDefault()}
+                    >
+                        {list.title}
+                    </DropdownMenuCheckboxItem>
+                ))}
+                {selected.length > 0 && (
+                    <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onSelect={() => onChange([])}>
+                            Show all lists
+                        </DropdownMenuItem>
+                    </>
+                )}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
@@ -0,0 +1,189 @@
+import InputError from '@/components/input-error';
+import PriorityBadge from '@/components/priority-badge';
+import { describeRecurrence } from '@/components/recurrence-fields';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { parseDate } from '@/lib/dates';
+import { type Recurrence, type TaskList, type TaskPriority } from '@/types';
+import { router } from '@inertiajs/react';
+import { Calendar, List, Plus, Repeat, Zap } from 'lucide-react';
+import { type FormEvent, useEffect, useState } from 'react';
+
+interface ParsedTask {
+    title: string;
+    due_date: string | null;
+    list_id: number | null;
+    priority: TaskPriority | null;
+    recurrence: Recurrence | null;
+}
+
+const PREVIEW_DELAY = 200;
+
+const fetchParsed = async (text: string): Promise<ParsedTask> => {
+    const response = await fetch(
+        `/tasks/parse?${new URLSearchParams({ text })}`,
+        { headers: { Accept: 'application/json' } },
+    );
+
+    if (!response.ok) {
+        throw new Error(`Failed to fetch: ${response.status}`);
+    }
+
+    return response.json();
+};
+
+/**
+ * A single-line alternative to the task dialog, which reads the due date,
+ * #list, !priority and "every …" recurrence out of what is typed and
+ * previews them before the task is created.
+ */
+export default function TaskQuickAdd({
+    lists,
+    defaultListId,
+}: {
+    lists: TaskList[];
+    defaultListId?: number;
+}) {
+    const [text, setText] = useState('');
+    const [preview, setPreview] = useState<ParsedTask | null>(null);
+    const [processing, setProcessing] = useState(false);
+    const [error, setError] = useState<string>();
+
+    // The server does the parsing, so the preview always matches what
+    // will be saved. Stale responses are dropped.
+    useEffect(() => {
+        if (text.trim() === '') {
+            return;
+        }
+
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            fetchParsed(text)
+                .then((parsed) => !cancelled && setPreview(parsed))
+                .catch(() => !cancelled && setPreview(null));
+        }, PREVIEW_DELAY);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [text]);
+
+    const fallbackListId = defaultListId ?? lists[0]?.id;
+    const listFor = (parsed: ParsedTask) =>
+        lists.find((list) => list.id === (parsed.list_id ?? fallbackListId));
+
+    const handleChange = (value: string) => {
+        setText(value);
+        setError(undefined);
+
+        if (value.trim() === '') {
+            setPreview(null);
+        }
+    };
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+
+        if (text.trim() === '' || processing) {
+            return;
+        }
+
+        setProcessing(true);
+
+        let parsed: ParsedTask;
+
+        try {
+            parsed = await fetchParsed(text);
+        } catch {
+            setError('The task could not be read. Please try again.');
+            setProcessing(false);
+
+            return;
+        }
+
+        router.post(
+            '/tasks',
+            {
+                title: parsed.title,
+                due_date: parsed.due_date,
+                list_id: parsed.list_id ?? fallbackListId ?? null,
+                priority: parsed.priority ?? 'none',
+                recurrence: parsed.recurrence ? { ...parsed.recurrence } : null,
+            },
+            {
+                preserveScroll: true,
+                onSuccess: () => {
+                    setText('');
+                    setPreview(null);
+                },
+                onError: (errors) => setError(Object.values(errors)[0]),
+                onFinish: () => setProcessing(false),
+            },
+        );
+    };
+
+    const list = preview ? listFor(preview) : undefined;
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-2">
+            <div className="flex gap-2">
+                <div className="relative flex-1">
+                    <Zap className="absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                    <Input
+                        value={text}
+                        onChange={(e) => handleChange(e.target.value)}
+                        placeholder='Quick add, e.g. "Pay rent tomorrow #Home !high every month"'
+                        aria-label="Quick add a task"
+                        aria-invalid={!!error || undefined}
+                        className="pl-10"
+                    />
+                </div>
+                <Button
+                    type="submit"
+                    variant="outline"
+                    disabled={processing || text.trim() === ''}
+                >
+                    <Plus className="h-4 w-4" /> Add
+                </Button>
+            </div>
+
+            {text.trim() !== '' && preview && (
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                    <span
+                        className={
+                            preview.title
+                                ? 'font-medium text-foreground'
+                                : 'italic'
+                        }
+                    >
+                        {preview.title || 'No title yet'}
+                    </span>
+                    {list && (
+                        <span className="flex items-center gap-1">
+                            <List className="h-3.5 w-3.5" />
+                            {list.title}
+                        </span>
+                    )}
+                    {preview.due_date && (
+                        <span className="flex items-center gap-1">
+                            <Calendar className="h-3.5 w-3.5" />
+                            {parseDate(preview.due_date).toLocaleDateString()}
+                        </span>
+                    )}
+                    {preview.priority && (
+                        <PriorityBadge priority={preview.priority} />
+                    )}
+                    {preview.recurrence && (
+                        <span className="flex items-center gap-1">
+                            <Repeat className="h-3.5 w-3.5" />
+                            {describeRecurrence(preview.recurrence)}
+                        </span>
+                    )}
+                </div>
+            )}
+
+            <InputError message={error} />
+        </form>
+    );
+}
@@ -0,0 +1,180 @@
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { Search } from 'lucide-react';
+import { type KeyboardEvent, type Ref, useState } from 'react';
+
+interface Suggestion {
+    label: string;
+    description?: string;
+    insert: string;
+}
+
+interface TaskSearchInputProps {
+    value: string;
+    onChange: (value: string) => void;
+    invalid?: boolean;
+    keys: Record<string, string>;
+    values: Record<string, string[]>;
+    inputRef?: Ref<HTMLInputElement>;
+}
+
+/**
+ * Split off the term being typed at the end of the search, along with its
+ * negation, key and partial value.
+ */
+function currentTerm(value: string) {
+    const match = value.match(/(-?)(?:([a-z]+):)?("?[^\s"]*)$/i);
+
+    return {
+        start: match?.index ?? value.length,
+        negated: match?.[1] ?? '',
+        key: match?.[2]?.toLowerCase() ?? null,
+        partial: match?.[3] ?? '',
+    };
+}
+
+function suggestionsFor(
+    value: string,
+    keys: Record<string, string>,
+    values: Record<string, string[]>,
+): Suggestion[] {
+    const { negated, key, partial } = currentTerm(value);
+    const needle = partial.replace(/^"/, '').toLowerCase();
+
+    if (key === null) {
+        if (needle === '' || partial.startsWith('"')) {
+            return [];
+        }
+
+        return Object.entries(keys)
+            .filter(([name]) => name.startsWith(needle))
+            .map(([name, description]) => ({
+                label: `${name}:`,
+                description,
+                insert: `${negated}${name}:`,
+            }));
+    }
+
+    return (values[key] ?? [])
+        .filter(
+            (option) =>
+                option.toLowerCase().startsWith(needle) &&
+                option.toLowerCase() !== needle,
+        )
+        .slice(0, 8)
+        .map((option) => {
+            const quoted = /\s/.test(option) ? `"${option}"` : option;
+
+            return {
+                label: `${key}:${quoted}`,
+                insert: `${negated}${key}:${quoted} `,
+            };
+        });
+}
+
+export default function TaskSearchInput({
+    value,
+    onChange,
+    invalid = false,
+    keys,
+    values,
+    inputRef,
+}: TaskSearchInputProps) {
+    const [focused, setFocused] = useState(false);
+    const [active, setActive] = useState(-1);
+
+    const suggestions = focused ? suggestionsFor(value, keys, values) : [];
+
+    const accept = (suggestion: Suggestion) => {
+        onChange(value.slice(0, currentTerm(value).start) + suggestion.insert);
+        setActive(-1);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        // Escape leaves the field, handing the keyboard back to shortcuts.
+        if (suggestions.length === 0) {
+            if (e.key === 'Escape') {
+                e.currentTarget.blur();
+            }
+
+            return;
+        }
+
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setActive(
+                (current) =>
+                    (current + step + suggestions.length) % suggestions.length,
+            );
+        } else if (e.key === 'Tab' || (e.key === 'Enter' && active >= 0)) {
+            e.preventDefault();
+            accept(suggestions[Math.max(active, 0)]);
+        } else if (e.key === 'Escape') {
+            setFocused(false);
+        }
+    };
+
+    return (
+        <div className="relative">
+            <Search className="absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 transform text-muted-foreground" />
+            <Input
+                ref={inputRef}
+                placeholder="Search tasks..."
+                value={value}
+                onChange={(e) => {
+                    onChange(e.target.value);
+                    setFocused(true);
+                    setActive(-1);
+                }}
+                onFocus={() => setFocused(true)}
+                onBlur={() => setFocused(false)}
+                onKeyDown={handleKeyDown}
+                aria-invalid={invalid || undefined}
+                aria-autocomplete="list"
+                className="w-64 pl-10"
+            />
+            {suggestions.length > 0 && (
+                <ul
+                    role="listbox"
+                    className="absolute top-full left-0 z-50 mt-1 w-80 rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+                >
+                    {suggestions.map((suggestion, index) => (
+                        <li
+                            key={suggestion.label}
+                            role="option"
+                            aria-selected={index === active}
+                            onMouseDown={(e) => {
+                                e.preventDefault();
+                                accept(suggestion);
+                            }}
+                            onMouseEnter={() => setActive(index)}
+                            className={cn(
+                                'flex cursor-pointer items-baseline justify-between gap-3 rounded-sm px-2 py-1.5 text-sm',
+                                index === active && 'bg-accent',
+                            )}
+                        >
+                            <span className="font-mono">
+                                {suggestion.label}
+                            </span>
+                            {suggestion.description && (
+                                <span className="truncate text-xs text-muted-foreground">
+                                    {suggestion.description}
+                                </span>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {suggestions.length === 0 && focused && value === '' && (
+                <p className="absolute top-full left-0 z-50 mt-1 w-80 rounded-md border bg-popover p-2 text-xs text-muted-foreground shadow-md">
+                    Try{' '}
+                    <code className="font-mono">
+                        list:Work due:&lt;2026-11-01 is:open
+                    </code>{' '}
+                    or a &quot;quoted phrase&quot;.
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,86 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Handlers keyed by the key that triggers them, or by two keys separated
+ * by a space for a sequence such as "g l".
+ */
+export type ShortcutBindings = Record<string, () => void>;
+
+const SEQUENCE_TIMEOUT = 1000;
+
+/**
+ * Whether a key press belongs to something else on the page: a field being
+ * typed in, or an open dialog, menu or listbox.
+ */
+function isInteractive(target: EventTarget | null) {
+    if (!(target instanceof HTMLElement)) {
+        return false;
+    }
+
+    return (
+        target.isContentEditable ||
+        ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) ||
+        target.closest('[role="dialog"], [role="menu"], [role="listbox"]') !==
+            null
+    );
+}
+
+/**
+ * Single-key shortcuts for the whole page, in the style of Gmail.
+ *
+ * Keys pressed with Ctrl, Cmd or Alt held, or while typing, are left alone.
+ */
+export function useKeyboardShortcuts(
+    bindings: ShortcutBindings,
+    enabled = true,
+) {
+    const latest = useRef(bindings);
+
+    useEffect(() => {
+        latest.current = bindings;
+    });
+
+    useEffect(() => {
+        if (!enabled) {
+            return;
+        }
+
+        let pending: string | null = null;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (
+                e.defaultPrevented ||
+                e.ctrlKey ||
+                e.metaKey ||
+                e.altKey ||
+                isInteractive(e.target)
+            ) {
+                return;
+            }
+
+            const key = pending ? `${pending} ${e.key}` : e.key;
+            const startsSequence = Object.keys(latest.current).some((binding) =>
+                binding.startsWith(`${e.key} `),
+            );
+
+            clearTimeout(timer);
+            pending = null;
+
+            if (latest.current[key]) {
+                e.preventDefault();
+                latest.current[key]();
+            } else if (startsSequence) {
+                pending = e.key;
+                timer = setTimeout(() => (pending = null), SEQUENCE_TIMEOUT);
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+
+        return () => {
+            clearTimeout(timer);
+            window.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [enabled]);
+}
@@ -0,0 +1,77 @@
+import { router } from '@inertiajs/react';
+import { useRef, useState } from 'react';
+
+type VisitOptions = NonNullable<Parameters<typeof router.visit>[1]>;
+
+interface PendingChange<T> {
+    id: number;
+    apply: (items: T[]) => T[];
+}
+
+/**
+ * Change a page's items straight away and send the request behind it.
+ *
+ * `apply` should set values rather than flip them, as it runs again on the
+ * fresh props until the request has finished.
+ */
+export type OptimisticMutate<T> = (
+    apply: (items: T[]) => T[],
+    send: (options: VisitOptions) => void,
+    failure?: string,
+) => void;
+
+/**
+ * Show changes to a list of items before the server has confirmed them.
+ *
+ * Each pending change is replayed on top of the latest props, so changes
+ * made in quick succession stack up and one the server rejects is dropped,
+ * putting the items back, with `onError` told why.
+ */
+export function useOptimisticItems<T>(
+    items: T[],
+    onError: (message: string) => void,
+) {
+    const [pending, setPending] = useState<PendingChange<T>[]>([]);
+    const nextId = useRef(0);
+
+    const mutate: OptimisticMutate<T> = (
+        apply,
+        send,
+        failure = 'Your change could not be saved. Please try again.',
+    ) => {
+        const id = nextId.current++;
+        let succeeded = false;
+        let message = failure;
+
+        setPending((current) => [...current, { id, apply }]);
+
+        send({
+            async: true,
+            preserveState: true,
+            preserveScroll: true,
+            onSuccess: () => {
+                succeeded = true;
+            },
+            onError: (errors) => {
+                message = Object.values(errors)[0] ?? failure;
+            },
+            onFinish: () => {
+                setPending((current) =>
+                    current.filter((change) => change.id !== id),
+                );
+
+                if (!succeeded) {
+                    onError(message);
+                }
+            },
+        });
+    };
+
+    return {
+        items: pending.reduce(
+            (current, change) => change.apply(current),
+            items,
+        ),
+        mutate,
+    };
+}
@@ -0,0 +1,133 @@
+import { type OptimisticMutate } from '@/hooks/use-optimistic-items';
+import { type Task } from '@/types';
+import { router } from '@inertiajs/react';
+import { type DragEvent, useState } from 'react';
+
+export type DropPlacement = 'before' | 'after';
+
+interface DropTarget {
+    id: number;
+    placement: DropPlacement;
+}
+
+/**
+ * Put a task between its new neighbours, leaving the rest in order.
+ */
+const place = (
+    tasks: Task[],
+    id: number,
+    previousId?: number,
+    nextId?: number,
+): Task[] => {
+    const moved = tasks.find((task) => task.id === id);
+    const rest = tasks.filter((task) => task.id !== id);
+    const neighbour = rest.findIndex((task) =>
+        nextId !== undefined ? task.id === nextId : task.id === previousId,
+    );
+
+    if (!moved || neighbour === -1) {
+        return tasks;
+    }
+
+    const index = nextId !== undefined ? neighbour : neighbour + 1;
+
+    return [...rest.slice(0, index), moved, ...rest.slice(index)];
+};
+
+/**
+ * Drag-and-drop reordering of tasks within their list.
+ *
+ * Rows are dragged by a handle and dropped above or below another task of
+ * the same list; only the moved task's neighbours are sent to the server.
+ * The row moves as soon as it is dropped and goes back if that fails.
+ */
+export function useTaskReorder(tasks: Task[], mutate: OptimisticMutate<Task>) {
+    const [draggingId, setDraggingId] = useState<number | null>(null);
+    const [target, setTarget] = useState<DropTarget | null>(null);
+
+    const dragging = tasks.find((task) => task.id === draggingId);
+
+    const reset = () => {
+        setDraggingId(null);
+        setTarget(null);
+    };
+
+    const drop = () => {
+        if (!dragging || !target) {
+            return reset();
+        }
+
+        const siblings = tasks.filter(
+            (task) =>
+                task.list_id === dragging.list_id && task.id !== dragging.id,
+        );
+        const index = siblings.findIndex((task) => task.id === target.id);
+        const insertAt = target.placement === 'before' ? index : index + 1;
+
+        const previous = siblings[insertAt - 1];
+        const next = siblings[insertAt];
+
+        reset();
+
+        mutate(
+            (items) => place(items, dragging.id, previous?.id, next?.id),
+            (options) =>
+                router.patch(
+                    `/tasks/${dragging.id}/reorder`,
+                    {
+                        previous_id: previous?.id ?? null,
+                        next_id: next?.id ?? null,
+                    },
+                    options,
+                ),
+            'The task could not be moved. Please try again.',
+        );
+    };
+
+    const handleProps = (task: Task) => ({
+        draggable: true,
+        onDragStart: (e: DragEvent<HTMLElement>) => {
+            const row = e.currentTarget.closest('[data-task-row]');
+
+            if (row) {
+                e.dataTransfer.setDragImage(row, 0, 0);
+            }
+
+            e.dataTransfer.effectAllowed = 'move';
+            setDraggingId(task.id);
+        },
+        onDragEnd: reset,
+    });
+
+    const rowProps = (task: Task) => ({
+        'data-task-row': true,
+        onDragOver: (e: DragEvent<HTMLElement>) => {
+            if (
+                !dragging ||
+                dragging.id === task.id ||
+                dragging.list_id !== task.list_id
+            ) {
+                return;
+            }
+
+            e.preventDefault();
+
+            const rect = e.currentTarget.getBoundingClientRect();
+            const placement =
+                e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+
+            if (target?.id !== task.id || target.placement !== placement) {
+                setTarget({ id: task.id, placement });
+            }
+        },
+        onDrop: (e: DragEvent<HTMLElement>) => {
+            e.preventDefault();
+            drop();
+        },
+    });
+
+    const placementFor = (task: Task): DropPlacement | null =>
+        target?.id === task.id ? target.placement : null;
+
+    return { draggingId, handleProps, rowProps, placementFor };
+}
@@ -0,0 +1,45 @@
+/**
+ * Helpers for the plain `YYYY-MM-DD` strings the server uses for due dates.
+ * They work in local time so a date never shifts across a UTC boundary.
+ */
+export function parseDate(value: string): Date {
+    const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+
+    return new Date(year, month - 1, day);
+}
+
+export function formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function addDays(value: string, days: number): string {
+    const date = parseDate(value);
+    date.setDate(date.getDate() + days);
+
+    return formatDate(date);
+}
+
+export function eachDay(start: string, end: string): string[] {
+    const days: string[] = [];
+
+    for (let day = start; day <= end; day = addDays(day, 1)) {
+        days.push(day);
+    }
+
+    return days;
+}
+
+/**
+ * Format a `HH:MM` due time in the viewer's locale, e.g. "3:00 PM".
+ */
+export function formatTime(value: string): string {
+    const [hours, minutes] = value.split(':').map(Number);
+
+    return new Date(2000, 0, 1, hours, minutes).toLocaleTimeString([], {
+        hour: 'numeric',
+        minute: '2-digit',
+    });
+}
@@ -0,0 +1,36 @@
+/**
+ * Score how well a query matches some text as a subsequence, or return
+ * null when it does not match at all. Consecutive characters and matches
+ * at the start of words score higher, and shorter texts win ties.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+    const needle = query.toLowerCase().replace(/\s+/g, '');
+    const haystack = text.toLowerCase();
+
+    if (needle === '') {
+        return 0;
+    }
+
+    let score = 0;
+    let streak = 0;
+    let position = 0;
+
+    for (const char of needle) {
+        const index = haystack.indexOf(char, position);
+
+        if (index === -1) {
+            return null;
+        }
+
+        streak = index === position ? streak + 1 : 0;
+        score += 1 + streak * 2;
+
+        if (index === 0 || /[\s\-_/]/.test(haystack[index - 1])) {
+            score += 3;
+        }
+
+        position = index + 1;
+    }
+
+    return score - haystack.length * 0.01;
+}
@@ -0,0 +1,329 @@
+import PriorityBadge from '@/components/priority-badge';
+import { Button } from '@/components/ui/button';
+import AppLayout from '@/layouts/app-layout';
+import { eachDay, parseDate } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+import { type BreadcrumbItem, type Task } from '@/types';
+import { Head, router } from '@inertiajs/react';
+
+import { CheckCircle2, ChevronLeft, ChevronRight, List } from 'lucide-react';
+import { useState } from 'react';
+
+type CalendarView = 'month' | 'week' | 'agenda';
+
+interface Props {
+    tasks: Task[];
+    view: CalendarView;
+    date: string;
+    today: string;
+    range: {
+        start: string;
+        end: string;
+    };
+    navigation: {
+        previous: string;
+        next: string;
+    };
+}
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Calendar', href: '/calendar' },
+];
+
+const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const views: { value: CalendarView; label: string }[] = [
+    { value: 'month', label: 'Month' },
+    { value: 'week', label: 'Week' },
+    { value: 'agenda', label: 'Agenda' },
+];
+
+function heading(view: CalendarView, date: string, range: Props['range']) {
+    if (view === 'month') {
+        return parseDate(date).toLocaleDateString(undefined, {
+            month: 'long',
+            year: 'numeric',
+        });
+    }
+
+    const format = (value: string) =>
+        parseDate(value).toLocaleDateString(undefined, {
+            month: 'short',
+            day: 'numeric',
+            year: 'numeric',
+        });
+
+    return `${format(range.start)} – ${format(range.end)}`;
+}
+
+function CalendarTask({
+    task,
+    today,
+    onDragStart,
+}: {
+    task: Task;
+    today: string;
+    onDragStart: (task: Task) => void;
+}) {
+    const isOverdue =
+        !task.is_completed && !!task.due_date && task.due_date < today;
+
+    return (
+        <div
+            draggable
+            onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                onDragStart(task);
+            }}
+            title={`${task.title} · ${task.list.title}`}
+            className={cn(
+                'flex cursor-grab items-center gap-1 truncate rounded-md border px-2 py-1 text-xs active:cursor-grabbing',
+                task.is_completed
+                    ? 'border-green-500/30 bg-green-500/10 text-muted-foreground line-through'
+                    : isOverdue
+                      ? 'border-red-500/40 bg-red-500/10 text-red-700 dark:text-red-300'
+                      : 'bg-background',
+            )}
+        >
+            {task.is_completed && (
+                <CheckCircle2 className="h-3 w-3 shrink-0 text-green-500" />
+            )}
+            <span className="truncate">{task.title}</span>
+        </div>
+    );
+}
+
+export default function CalendarIndex({
+    tasks,
+    view,
+    date,
+    today,
+    range,
+    navigation,
+}: Props) {
+    const [dragging, setDragging] = useState<Task | null>(null);
+    const [overDay, setOverDay] = useState<string | null>(null);
+
+    const days = eachDay(range.start, range.end);
+    const month = parseDate(date).getMonth();
+
+    const tasksOn = (day: string) =>
+        tasks.filter((task) => task.due_date?.slice(0, 10) === day);
+
+    const visit = (params: { view?: CalendarView; date?: string }) => {
+        router.get(
+            '/calendar',
+            { view, date, ...params },
+            {
+                preserveScroll: true,
+            },
+        );
+    };
+
+    const handleDrop = (day: string) => {
+        const task = dragging;
+
+        setDragging(null);
+        setOverDay(null);
+
+        if (!task || task.due_date?.slice(0, 10) === day) {
+            return;
+        }
+
+        router.patch(
+            `/tasks/${task.id}/move`,
+            { due_date: day },
+            {
+                preserveState: true,
+                preserveScroll: true,
+            },
+        );
+    };
+
+    const dropTarget = (day: string) => ({
+        onDragOver: (e: React.DragEvent) => {
+            e.preventDefault();
+            setOverDay(day);
+        },
+        onDragLeave: () => setOverDay(null),
+        onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            handleDrop(day);
+        },
+    });
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Calendar" />
+            <div className="flex h-full flex-1 flex-col gap-6 rounded-xl p-6">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">
+                            Calendar
+                        </h1>
+                        <p className="mt-1 text-muted-foreground">
+                            {heading(view, date, range)}
+                        </p>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                        <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => visit({ date: navigation.previous })}
+                        >
+                            <ChevronLeft className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            variant="outline"
+                            onClick={() => visit({ date: today })}
+                        >
+                            Today
+                        </Button>
+                        <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => visit({ date: navigation.next })}
+                        >
+                            <ChevronRight className="h-4 w-4" />
+                        </Button>
+
+                        <div className="ml-2 inline-flex gap-1 rounded-lg bg-muted p-1">
+                            {views.map((option) => (
+                                <Button
+                                    key={option.value}
+                                    size="sm"
+                                    variant={
+                                        view === option.value
+                                            ? 'outline'
+                                            : 'ghost'
+                                    }
+                                    onClick={() =>
+                                        visit({ view: option.value })
+                                    }
+                                >
+                                    {option.label}
+                                </Button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                {view === 'agenda' ? (
+                    <div className="divide-y rounded-xl border">
+                        {days
+                            .filter((day) => tasksOn(day).length > 0)
+                            .map((day) => (
+                                <div
+                                    key={day}
+                                    {...dropTarget(day)}
+                                    className={cn(
+                                        'flex gap-6 p-4 transition-colors',
+                                        overDay === day && 'bg-primary/5',
+                                    )}
+                                >
+                                    <div
+                                        className={cn(
+                                            'w-32 shrink-0 text-sm font-medium',
+                                            day === today && 'text-primary',
+                                        )}
+                                    >
+                                        {parseDate(day).toLocaleDateString(
+                                            undefined,
+                                            {
+                                                weekday: 'short',
+                                                month: 'short',
+                                                day: 'numeric',
+                                            },
+                                        )}
+                                    </div>
+                                    <div className="flex-1 space-y-2">
+                                        {tasksOn(day).map((task) => (
+                                            <div
+                                                key={task.id}
+                                                className="flex items-center gap-3"
+                                            >
+                                                <div className="min-w-0 flex-1">
+                                                    <CalendarTask
+                                                        task={task}
+                                                        today={today}
+                                                        onDragStart={
+                                                            setDragging
+                                                        }
+                                                    />
+                                                </div>
+                                                <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                                                    <List className="h-3 w-3" />
+                                                    {task.list.title}
+                                                </span>
+                                                {task.priority !== 'none' && (
+                                                    <PriorityBadge
+                                                        priority={task.priority}
+                                                    />
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        {tasks.length === 0 && (
+                            <p className="p-6 text-center text-sm text-muted-foreground">
+                                Nothing due in the next 30 days.
+                            </p>
+                        )}
+                    </div>
+                ) : (
+                    <div className="overflow-hidden rounded-xl border">
+                        <div className="grid grid-cols-7 border-b bg-muted/40">
+                            {weekdays.map((weekday) => (
+                                <div
+                                    key={weekday}
+                                    className="px-2 py-2 text-xs font-medium text-muted-foreground"
+                                >
+                                    {weekday}
+                                </div>
+                            ))}
+                        </div>
+                        <div className="grid grid-cols-7">
+                            {days.map((day) => (
+                                <div
+                                    key={day}
+                                    {...dropTarget(day)}
+                                    className={cn(
+                                        'flex flex-col gap-1 border-r border-b p-1.5 transition-colors [&:nth-child(7n)]:border-r-0',
+                                        view === 'week'
+                                            ? 'min-h-96'
+                                            : 'min-h-28',
+                                        view === 'month' &&
+                                            parseDate(day).getMonth() !==
+                                                month &&
+                                            'bg-muted/30 text-muted-foreground',
+                                        overDay === day && 'bg-primary/5',
+                                    )}
+                                >
+                                    <span
+                                        className={cn(
+                                            'flex h-6 w-6 items-center justify-center self-end rounded-full text-xs',
+                                            day === today &&
+                                                'bg-primary font-semibold text-primary-foreground',
+                                        )}
+                                    >
+                                        {parseDate(day).getDate()}
+                                    </span>
+                                    {tasksOn(day).map((task) => (
+                                        <CalendarTask
+                                            key={task.id}
+                                            task={task}
+                                            today={today}
+                                            onDragStart={setDragging}
+                                        />
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </AppLayout>
+    );
+}
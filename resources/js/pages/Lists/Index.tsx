@@ -10,10 +10,11 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { useOptimisticItems } from '@/hooks/use-optimistic-items';
 import AppLayout from '@/layouts/app-layout';
 import { type BreadcrumbItem } from '@/types';
 
-import { Head, useForm } from '@inertiajs/react';
+import { Head, Link, router, useForm } from '@inertiajs/react';
 
 import { CheckCircle2, Pencil, Plus, Trash2, XCircle } from 'lucide-react';
 import { useEffect, useState } from 'react';
@@ -67,15 +68,13 @@ export default function ListsIndex({ lists, flash }: Props) {
         }
     }, [showToast]);
 
-    const {
-        data,
-        setData,
-        post,
-        put,
-        processing,
-        reset,
-        delete: destroy,
-    } = useForm({
+    const { items: cards, mutate } = useOptimisticItems(lists, (message) => {
+        setToastMessage(message);
+        setToastType('error');
+        setShowToast(true);
+    });
+
+    const { data, setData, post, put, processing, reset } = useForm({
         title: '',
         description: '',
     });
@@ -109,8 +108,16 @@ export default function ListsIndex({ lists, flash }: Props) {
         setIsOpen(true);
     };
 
-    const handleDelete = (listId: number) => {
-        destroy(`/lists/${listId}`);
+    const handleDelete = (list: List) => {
+        if (
+            confirm(`Move "${list.title}" and all of its tasks to the trash?`)
+        ) {
+            mutate(
+                (items) => items.filter((item) => item.id !== list.id),
+                (options) => router.delete(`/lists/${list.id}`, options),
+                'The list could not be deleted. Please try again.',
+            );
+        }
     };
 
     return (
@@ -181,14 +188,19 @@ export default function ListsIndex({ lists, flash }: Props) {
                 </div>
 
                 <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
-                    {lists.map((list) => (
+                    {cards.map((list) => (
                         <Card
                             key={list.id}
-                            className="transition-colors hover:bg-accent/50"
+                            className="relative transition-colors hover:bg-accent/50"
                         >
                             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                                {list.title}
-                                <CardContent className="flex gap-2">
+                                <Link
+                                    href={`/lists/${list.id}`}
+                                    className="font-medium after:absolute after:inset-0"
+                                >
+                                    {list.title}
+                                </Link>
+                                <CardContent className="relative z-10 flex gap-2">
                                     <Button
                                         variant="ghost"
                                         size="icon"
@@ -199,7 +211,7 @@ export default function ListsIndex({ lists, flash }: Props) {
                                     </Button>
                                     <Button
                                         className="text-destructive hover:text-destructive/90"
-                                        onClick={() => handleDelete(list.id)}
+                                        onClick={() => handleDelete(list)}
                                         variant="ghost"
                                         size="icon"
                                     >
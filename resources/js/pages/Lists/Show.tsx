@@ -0,0 +1,302 @@
+import PriorityBadge, { priorityLabels } from '@/components/priority-badge';
+import TagBadge from '@/components/tag-badge';
+import { statusLabels } from '@/components/task-board';
+import { ChecklistProgress } from '@/components/task-checklist';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { useOptimisticItems } from '@/hooks/use-optimistic-items';
+import { useTaskReorder } from '@/hooks/use-task-reorder';
+import AppLayout from '@/layouts/app-layout';
+import { parseDate } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+import { index as lists, show } from '@/routes/lists';
+import {
+    type BreadcrumbItem,
+    type Task,
+    type TaskList,
+    type TaskPriority,
+} from '@/types';
+import { Head, Link, router, useForm } from '@inertiajs/react';
+
+import { Calendar, GripVertical, Plus, XCircle } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+interface Props {
+    list: TaskList;
+    tasks: Task[];
+    stats: {
+        total: number;
+        completed: number;
+        overdue: number;
+    };
+    priorities: TaskPriority[];
+    today: string;
+}
+
+export default function ListsShow({
+    list,
+    tasks,
+    stats,
+    priorities,
+    today,
+}: Props) {
+    const breadcrumbs: BreadcrumbItem[] = [
+        { title: 'Lists', href: lists().url },
+        { title: list.title, href: show(list.id).url },
+    ];
+
+    const { data, setData, post, processing, errors, reset } = useForm({
+        title: '',
+        due_date: '',
+        priority: 'none' as TaskPriority,
+    });
+
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (error) {
+            const timer = setTimeout(() => setError(null), 3000);
+
+            return () => clearTimeout(timer);
+        }
+    }, [error]);
+
+    const { items: rows, mutate } = useOptimisticItems(tasks, setError);
+    const reorder = useTaskReorder(rows, mutate);
+
+    const progress = stats.total > 0 ? stats.completed / stats.total : 0;
+
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+
+        post(`/lists/${list.id}/tasks`, {
+            preserveScroll: true,
+            onSuccess: () => reset(),
+        });
+    };
+
+    const handleToggle = (task: Task, checked: boolean) => {
+        const status = checked ? 'done' : 'todo';
+
+        mutate(
+            (items) =>
+                items.map((item) =>
+                    item.id === task.id
+                        ? { ...item, status, is_completed: checked }
+                        : item,
+                ),
+            (options) =>
+                router.patch(`/tasks/${task.id}/move`, { status }, options),
+            'The task could not be updated. Please try again.',
+        );
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title={list.title} />
+            <div className="flex h-full flex-1 flex-col gap-6 rounded-xl p-6">
+                {error && (
+                    <div className="toast fixed top-4 right-4 z-50 flex animate-in items-center gap-2 rounded-lg bg-red-500 p-4 text-white shadow-lg slide-in-from-top-5 fade-in">
+                        <XCircle className="h-5 w-5" />
+                        <span>{error}</span>
+                    </div>
+                )}
+
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">
+                        {list.title}
+                    </h1>
+                    <p className="mt-1 text-muted-foreground">
+                        {list.description || 'No description'}
+                    </p>
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-3">
+                    <Card className="gap-2 py-4">
+                        <CardContent>
+                            <p className="text-sm text-muted-foreground">
+                                Progress
+                            </p>
+                            <p className="text-2xl font-bold">
+                                {stats.completed}/{stats.total}
+                            </p>
+                            <div className="mt-2 h-2 overflow-hidden rounded-full bg-muted">
+                                <div
+                                    className="h-full rounded-full bg-green-500 transition-all"
+                                    style={{ width: `${progress * 100}%` }}
+                                />
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card className="gap-2 py-4">
+                        <CardContent>
+                            <p className="text-sm text-muted-foreground">
+                                Open
+                            </p>
+                            <p className="text-2xl font-bold">
+                                {stats.total - stats.completed}
+                            </p>
+                        </CardContent>
+                    </Card>
+                    <Card className="gap-2 py-4">
+                        <CardContent>
+                            <p className="text-sm text-muted-foreground">
+                                Overdue
+                            </p>
+                            <p
+                                className={cn(
+                                    'text-2xl font-bold',
+                                    stats.overdue > 0 && 'text-red-500',
+                                )}
+                            >
+                                {stats.overdue}
+                            </p>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-1">
+                    <div className="flex flex-wrap gap-2">
+                        <Input
+                            value={data.title}
+                            onChange={(e) => setData('title', e.target.value)}
+                            placeholder={`Add a task to ${list.title}...`}
+                            className="min-w-64 flex-1"
+                            required
+                        />
+                        <Input
+                            type="date"
+                            value={data.due_date}
+                            onChange={(e) =>
+                                setData('due_date', e.target.value)
+                            }
+                            aria-label="Due date"
+                            className="w-40"
+                        />
+                        <Select
+                            value={data.priority}
+                            onValueChange={(value) =>
+                                setData('priority', value as TaskPriority)
+                            }
+                        >
+                            <SelectTrigger
+                                className="w-32"
+                                aria-label="Priority"
+                            >
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {priorities.map((priority) => (
+                                    <SelectItem key={priority} value={priority}>
+                                        {priorityLabels[priority]}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Button type="submit" disabled={processing}>
+                            <Plus className="mr-2 h-4 w-4" />
+                            Add Task
+                        </Button>
+                    </div>
+                    {errors.title && (
+                        <p className="text-sm text-red-500">{errors.title}</p>
+                    )}
+                </form>
+
+                <div className="divide-y rounded-xl border">
+                    {rows.map((task) => {
+                        const isOverdue =
+                            !task.is_completed &&
+                            !!task.due_date &&
+                            task.due_date < today;
+
+                        return (
+                            <div
+                                key={task.id}
+                                {...reorder.rowProps(task)}
+                                className={cn(
+                                    'flex items-center gap-3 p-4',
+                                    reorder.draggingId === task.id &&
+                                        'opacity-50',
+                                    reorder.placementFor(task) === 'before' &&
+                                        'shadow-[inset_0_2px_0_var(--primary)]',
+                                    reorder.placementFor(task) === 'after' &&
+                                        'shadow-[inset_0_-2px_0_var(--primary)]',
+                                )}
+                            >
+                                <span
+                                    {...reorder.handleProps(task)}
+                                    className="cursor-grab text-muted-foreground active:cursor-grabbing"
+                                    aria-label="Drag to reorder"
+                                >
+                                    <GripVertical className="h-4 w-4" />
+                                </span>
+                                <Checkbox
+                                    checked={task.is_completed}
+                                    onCheckedChange={(checked) =>
+                                        handleToggle(task, checked === true)
+                                    }
+                                    aria-label={`Complete ${task.title}`}
+                                />
+                                <div className="min-w-0 flex-1">
+                                    <Link
+                                        href={`/tasks/${task.id}`}
+                                        className={cn(
+                                            'font-medium hover:underline',
+                                            task.is_completed &&
+                                                'text-muted-foreground line-through',
+                                        )}
+                                    >
+                                        {task.title}
+                                    </Link>
+                                    <div className="mt-1 flex flex-wrap items-center gap-2">
+                                        {task.tags.map((tag) => (
+                                            <TagBadge key={tag.id} tag={tag} />
+                                        ))}
+                                        <ChecklistProgress
+                                            items={task.checklist_items}
+                                        />
+                                    </div>
+                                </div>
+                                {task.due_date && (
+                                    <span
+                                        className={cn(
+                                            'flex items-center gap-1 text-sm text-muted-foreground',
+                                            isOverdue && 'text-red-500',
+                                        )}
+                                    >
+                                        <Calendar className="h-4 w-4" />
+                                        {parseDate(
+                                            task.due_date,
+                                        ).toLocaleDateString()}
+                                    </span>
+                                )}
+                                {task.priority !== 'none' && (
+                                    <PriorityBadge priority={task.priority} />
+                                )}
+                                <Badge variant="outline">
+                                    {statusLabels[task.status]}
+                                </Badge>
+                            </div>
+                        );
+                    })}
+                    {rows.length === 0 && (
+                        <p className="p-6 text-center text-sm text-muted-foreground">
+                            This list has no tasks yet.
+                        </p>
+                    )}
+                </div>
+            </div>
+        </AppLayout>
+    );
+}
@@ -1,4 +1,29 @@
+import Highlight from '@/components/highlight';
+import InputError from '@/components/input-error';
+import KeyboardShortcutsDialog, {
+    type ShortcutHelp,
+} from '@/components/keyboard-shortcuts-dialog';
+import PriorityBadge, { priorityLabels } from '@/components/priority-badge';
+import RecurrenceFields, {
+    describeRecurrence,
+} from '@/components/recurrence-fields';
+import ReminderFields from '@/components/reminder-fields';
+import SaveViewDialog from '@/components/save-view-dialog';
+import TagBadge from '@/components/tag-badge';
+import TagPicker from '@/components/tag-picker';
+import TaskBoard, { type BoardGroup } from '@/components/task-board';
+import TaskBulkBar from '@/components/task-bulk-bar';
+import TaskChecklist, { ChecklistProgress } from '@/components/task-checklist';
+import {
+    InlineDueDate,
+    InlineList,
+    InlineTitle,
+} from '@/components/task-inline-fields';
+import TaskListFilter from '@/components/task-list-filter';
+import TaskQuickAdd from '@/components/task-quick-add';
+import TaskSearchInput from '@/components/task-search-input';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
     Dialog,
     DialogContent,
@@ -16,42 +41,97 @@ import {
     SelectValue,
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
+import { useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
+import { useOptimisticItems } from '@/hooks/use-optimistic-items';
+import { useTaskReorder } from '@/hooks/use-task-reorder';
 import AppLayout from '@/layouts/app-layout';
-import { BreadcrumbItem } from '@/types';
-import { Head, router, useForm } from '@inertiajs/react';
+import { formatTime } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+import {
+    BreadcrumbItem,
+    type DueWindow,
+    type Recurrence,
+    type SharedData,
+    type Tag,
+    type Task,
+    type TaskList,
+    type TaskPriority,
+    type TaskStatus,
+} from '@/types';
+import { Head, Link, router, useForm, usePage } from '@inertiajs/react';
 
 import {
-    Calendar,
+    ArrowDownWideNarrow,
+    ArrowUpNarrowWide,
+    Bell,
     CheckCircle,
     CheckCircle2,
     ChevronLeft,
     ChevronRight,
+    Clock,
+    Columns3,
+    Eye,
+    GripVertical,
+    Keyboard,
     List,
     Pencil,
     Plus,
-    Search,
+    Repeat,
     Trash2,
+    Undo2,
     XCircle,
 } from 'lucide-react';
-import { useEffect, useState } from 'react';
-
-interface Task {
-    id: number;
-    title: string;
-    description?: string;
-    due_date?: string;
-    list_id: number;
-    list: {
-        id: number;
-        title: string;
-    };
-    is_completed: boolean;
-}
+import { useEffect, useRef, useState } from 'react';
 
-interface List {
-    id: number;
-    title: string;
-}
+type TaskView = 'list' | 'board';
+
+type TaskSort =
+    | 'manual'
+    | 'relevance'
+    | 'created'
+    | 'updated'
+    | 'priority'
+    | 'due_date'
+    | 'title'
+    | 'list'
+    | 'completion';
+
+type SortDirection = 'asc' | 'desc';
+
+type DueFilter = DueWindow | 'all' | 'range';
+
+const dueLabels: Record<DueWindow, string> = {
+    overdue: 'Overdue',
+    today: 'Due today',
+    week: 'Due this week',
+    upcoming: 'Upcoming',
+    none: 'No due date',
+};
+
+const sortLabels: Record<TaskSort, string> = {
+    manual: 'Custom order',
+    relevance: 'Relevance',
+    created: 'Created',
+    updated: 'Last updated',
+    priority: 'Priority',
+    due_date: 'Due date',
+    title: 'Title',
+    list: 'List',
+    completion: 'Completion',
+};
+
+const shortcutHelp: ShortcutHelp[] = [
+    { keys: ['j'], description: 'Next task' },
+    { keys: ['k'], description: 'Previous task' },
+    { keys: ['x'], description: 'Select task' },
+    { keys: ['c'], description: 'Complete or reopen task' },
+    { keys: ['e'], description: 'Edit task' },
+    { keys: ['#'], description: 'Move task to trash' },
+    { keys: ['n'], description: 'New task' },
+    { keys: ['/'], description: 'Search' },
+    { keys: ['g', 'l'], description: 'Go to lists' },
+    { keys: ['?'], description: 'Show keyboard shortcuts' },
+];
 
 interface Props {
     tasks: {
@@ -63,11 +143,39 @@ interface Props {
         from: number;
         to: number;
     };
-    lists: List[];
+    board: Task[];
+    lists: TaskList[];
+    tags: Tag[];
+    statuses: TaskStatus[];
+    priorities: TaskPriority[];
+    dueWindows: DueWindow[];
+    reminderPresets: number[];
+    view: {
+        mode: TaskView;
+        group: BoardGroup;
+    };
     filters: {
         search: string;
         filter: string;
+        priority?: TaskPriority | null;
+        tag?: string | null;
+        lists: number[];
+        due: DueWindow | null;
+        due_from: string | null;
+        due_to: string | null;
+        sort: TaskSort;
+        direction: SortDirection;
+    };
+    query: {
+        keys: Record<string, string>;
+        states: string[];
+        errors: string[];
+        words: string[];
     };
+    undo?: {
+        message: string;
+        expires_at: string;
+    } | null;
     flash?: {
         success?: string;
         error?: string;
@@ -76,8 +184,27 @@ interface Props {
 
 const breadcrumbs: BreadcrumbItem[] = [{ title: 'Tasks', href: '/tasks' }];
 
-export default function TaskIndex({ tasks, lists, filters, flash }: Props) {
-    const [isOpen, setIsOpen] = useState(false);
+export default function TaskIndex({
+    tasks,
+    board,
+    lists,
+    tags,
+    statuses,
+    priorities,
+    dueWindows,
+    reminderPresets,
+    view,
+    filters,
+    query,
+    undo,
+    flash,
+}: Props) {
+    // The command palette links here with ?create=1 to start a new task.
+    const [isOpen, setIsOpen] = useState(
+        () =>
+            typeof window !== 'undefined' &&
+            new URLSearchParams(window.location.search).has('create'),
+    );
     const [editingTask, setEditingTask] = useState<Task | null>(null);
     const [showToast, setShowToast] = useState(false);
     const [toastMessage, setToastMessage] = useState('');
@@ -86,6 +213,23 @@ export default function TaskIndex({ tasks, lists, filters, flash }: Props) {
     const [completionFilter, setCompletionFilter] = useState<
         'all' | 'completed' | 'pending'
     >(filters.filter as 'all');
+    const [priorityFilter, setPriorityFilter] = useState<TaskPriority | 'all'>(
+        filters.priority || 'all',
+    );
+    const [tagFilter, setTagFilter] = useState(filters.tag || 'all');
+    const [listFilter, setListFilter] = useState<number[]>(filters.lists);
+    const [dueFilter, setDueFilter] = useState<DueFilter>(
+        filters.due ?? (filters.due_from || filters.due_to ? 'range' : 'all'),
+    );
+    const [dueFrom, setDueFrom] = useState(filters.due_from ?? '');
+    const [dueTo, setDueTo] = useState(filters.due_to ?? '');
+    const [expiredUndo, setExpiredUndo] = useState<string | null>(null);
+    const [selected, setSelected] = useState<number[]>([]);
+    const [lastSelected, setLastSelected] = useState<number | null>(null);
+    const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+    const [showShortcuts, setShowShortcuts] = useState(false);
+    const searchInput = useRef<HTMLInputElement>(null);
+    const { auth } = usePage<SharedData>().props;
 
     useEffect(() => {
         if (flash?.success) {
@@ -109,22 +253,56 @@ export default function TaskIndex({ tasks, lists, filters, flash }: Props) {
         }
     }, [showToast]);
 
-    const {
-        data,
-        setData,
-        post,
-        put,
-        processing,
-        reset,
-        delete: destroy,
-    } = useForm({
+    // Keep offering the undo until the server-side window closes, which
+    // also covers an undo that is still pending after a page reload.
+    useEffect(() => {
+        if (!undo) {
+            return;
+        }
+
+        const timer = setTimeout(
+            () => setExpiredUndo(undo.expires_at),
+            new Date(undo.expires_at).getTime() - Date.now(),
+        );
+
+        return () => clearTimeout(timer);
+    }, [undo]);
+
+    const canUndo = !!undo && expiredUndo !== undo.expires_at;
+    const toastIsError = showToast && toastType === 'error';
+
+    const handleUndo = () => {
+        router.post(
+            '/tasks/undo',
+            {},
+            {
+                preserveScroll: true,
+            },
+        );
+    };
+
+    const { data, setData, post, put, processing, reset } = useForm({
         title: '',
         description: '',
         due_date: '',
+        due_time: '',
+        reminders: [] as number[],
+        recurrence: null as Recurrence | null,
+        tag_ids: [] as number[],
         list_id: '',
+        priority: 'none' as TaskPriority,
         is_completed: false as boolean,
+        auto_complete: false as boolean,
     });
 
+    // Checklist changes reload the page props, so read the task being
+    // edited from them rather than from the snapshot taken on open.
+    const currentTask = editingTask
+        ? (tasks.data.find((task) => task.id === editingTask.id) ??
+          board.find((task) => task.id === editingTask.id) ??
+          editingTask)
+        : null;
+
     const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
 
@@ -152,23 +330,169 @@ export default function TaskIndex({ tasks, lists, filters, flash }: Props) {
             title: task.title,
             description: task.description || '',
             due_date: task.due_date || '',
+            due_time: task.due_time || '',
+            reminders: (task.reminders ?? []).map(
+                (reminder) => reminder.minutes_before,
+            ),
+            recurrence: task.recurrence ?? null,
+            tag_ids: task.tags.map((tag) => tag.id),
             list_id: task.list_id.toString(),
+            priority: task.priority,
             is_completed: task.is_completed,
+            auto_complete: task.auto_complete,
         });
         setIsOpen(true);
     };
 
+    const showError = (message: string) => {
+        setToastMessage(message);
+        setToastType('error');
+        setShowToast(true);
+    };
+
+    // Rows change as soon as a task is completed, edited, moved or deleted,
+    // and are put back if the server turns the change down.
+    const { items: rows, mutate } = useOptimisticItems(tasks.data, showError);
+
+    const changeRow = (id: number, changes: Partial<Task>) => (items: Task[]) =>
+        items.map((task) => (task.id === id ? { ...task, ...changes } : task));
+
+    const reorder = useTaskReorder(rows, mutate);
+    const canReorder = filters.sort === 'manual' && filters.direction === 'asc';
+
+    const pageIds = rows.map((task) => task.id);
+    const allSelected =
+        pageIds.length > 0 && pageIds.every((id) => selected.includes(id));
+
+    // Shift-click selects every row between the last clicked one and this.
+    const handleSelect = (taskId: number, shiftKey: boolean) => {
+        const checked = !selected.includes(taskId);
+        let ids = [taskId];
+
+        if (shiftKey && lastSelected !== null) {
+            const from = pageIds.indexOf(lastSelected);
+            const to = pageIds.indexOf(taskId);
+
+            if (from !== -1 && to !== -1) {
+                ids = pageIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+            }
+        }
+
+        setSelected((current) =>
+            checked
+                ? [...new Set([...current, ...ids])]
+                : current.filter((id) => !ids.includes(id)),
+        );
+        setLastSelected(taskId);
+    };
+
+    const handleSelectAll = (checked: boolean) => {
+        setSelected((current) =>
+            checked
+                ? [...new Set([...current, ...pageIds])]
+                : current.filter((id) => !pageIds.includes(id)),
+        );
+    };
+
+    // Inline edits only send the field that changed.
+    const handleInlineUpdate = (
+        task: Task,
+        changes: { title?: string; due_date?: string | null; list_id?: number },
+    ) => {
+        const { due_date: dueDate, ...fields } = changes;
+        const list = lists.find((list) => list.id === changes.list_id);
+
+        mutate(
+            changeRow(task.id, {
+                ...fields,
+                ...('due_date' in changes && {
+                    due_date: dueDate ?? undefined,
+                }),
+                ...(list && { list: { ...task.list, title: list.title } }),
+            }),
+            (options) => router.patch(`/tasks/${task.id}`, changes, options),
+        );
+    };
+
     const handleDelete = (taskId: number) => {
-        destroy(`/tasks/${taskId}`);
+        mutate(
+            (items) => items.filter((task) => task.id !== taskId),
+            (options) => router.delete(`/tasks/${taskId}`, options),
+            'The task could not be deleted. Please try again.',
+        );
     };
 
-    const handleSearch = (e: React.FormEvent) => {
-        e.preventDefault();
+    // The cursor stays on the last row when completing or deleting shrinks
+    // the page beneath it.
+    const focusedTask =
+        view.mode === 'list' && focusedIndex !== null
+            ? rows[Math.min(focusedIndex, rows.length - 1)]
+            : undefined;
+
+    const moveFocus = (step: number) => {
+        if (view.mode !== 'list' || rows.length === 0) {
+            return;
+        }
+
+        setFocusedIndex((current) =>
+            current === null
+                ? 0
+                : Math.max(0, Math.min(current + step, rows.length - 1)),
+        );
+    };
+
+    const handleToggle = (task: Task) => {
+        const status = task.is_completed ? 'todo' : 'done';
+
+        mutate(
+            changeRow(task.id, { status, is_completed: status === 'done' }),
+            (options) =>
+                router.patch(`/tasks/${task.id}/move`, { status }, options),
+            'The task could not be updated. Please try again.',
+        );
+    };
+
+    useKeyboardShortcuts(
+        {
+            j: () => moveFocus(1),
+            k: () => moveFocus(-1),
+            x: () => focusedTask && handleSelect(focusedTask.id, false),
+            c: () => focusedTask && handleToggle(focusedTask),
+            e: () => focusedTask && handleEdit(focusedTask),
+            '#': () => focusedTask && handleDelete(focusedTask.id),
+            n: () => {
+                setEditingTask(null);
+                reset();
+                setIsOpen(true);
+            },
+            '/': () => searchInput.current?.focus(),
+            'g l': () => router.visit('/lists'),
+            '?': () => setShowShortcuts(true),
+        },
+        auth.user.keyboard_shortcuts !== false,
+    );
+
+    const dueParams = (due: DueFilter, from: string, to: string) => ({
+        due: due === 'all' || due === 'range' ? undefined : due,
+        due_from: due === 'range' && from ? from : undefined,
+        due_to: due === 'range' && to ? to : undefined,
+    });
+
+    const visit = (
+        params: Record<string, string | number | number[] | undefined> = {},
+    ) => {
         router.get(
             '/tasks',
             {
                 search: searchTerm,
                 filter: completionFilter,
+                priority: priorityFilter,
+                tag: tagFilter,
+                lists: listFilter,
+                ...dueParams(dueFilter, dueFrom, dueTo),
+                sort: filters.sort,
+                direction: filters.direction,
+                ...params,
             },
             {
                 preserveState: true,
@@ -177,53 +501,132 @@ export default function TaskIndex({ tasks, lists, filters, flash }: Props) {
         );
     };
 
+    // Searching ranks by relevance unless a specific order was picked.
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (filters.sort === 'manual' || filters.sort === 'relevance') {
+            visit({ sort: undefined, direction: undefined });
+        } else {
+            visit();
+        }
+    };
+
     const handleFilterChange = (value: 'all' | 'completed' | 'pending') => {
         setCompletionFilter(value);
+        visit({ filter: value });
+    };
+
+    const handlePriorityFilterChange = (value: TaskPriority | 'all') => {
+        setPriorityFilter(value);
+        visit({ priority: value });
+    };
+
+    const handleTagFilterChange = (value: string) => {
+        setTagFilter(value);
+        visit({ tag: value });
+    };
+
+    const handleListFilterChange = (value: number[]) => {
+        setListFilter(value);
+        visit({ lists: value });
+    };
+
+    // Picking a custom range waits for a date before reloading.
+    const handleDueFilterChange = (value: DueFilter) => {
+        setDueFilter(value);
+
+        if (value !== 'range') {
+            visit(dueParams(value, '', ''));
+        }
+    };
+
+    const handleDueRangeChange = (from: string, to: string) => {
+        setDueFrom(from);
+        setDueTo(to);
+        visit(dueParams('range', from, to));
+    };
+
+    const hasFilters =
+        !!filters.search ||
+        (!!filters.filter && filters.filter !== 'all') ||
+        !!filters.priority ||
+        (!!filters.tag && filters.tag !== 'all') ||
+        filters.lists.length > 0 ||
+        !!filters.due ||
+        !!filters.due_from ||
+        !!filters.due_to;
+
+    const handleClearFilters = () => {
+        setSearchTerm('');
+        setCompletionFilter('all');
+        setPriorityFilter('all');
+        setTagFilter('all');
+        setListFilter([]);
+        setDueFilter('all');
+        setDueFrom('');
+        setDueTo('');
         router.get(
             '/tasks',
-            {
-                search: searchTerm,
-                filter: value,
-            },
-            {
-                preserveState: true,
-                preserveScroll: true,
-            },
+            { sort: filters.sort, direction: filters.direction },
+            { preserveState: true, preserveScroll: true },
         );
     };
 
+    // A new sort starts out in its natural direction, chosen by the server.
+    const handleSortChange = (value: TaskSort) => {
+        visit({ sort: value, direction: undefined });
+    };
+
+    const handleDirectionToggle = () => {
+        visit({ direction: filters.direction === 'asc' ? 'desc' : 'asc' });
+    };
+
+    const handleViewChange = (
+        preference: Partial<{
+            task_view: TaskView;
+            task_board_group: BoardGroup;
+        }>,
+    ) => {
+        router.patch('/tasks/view', preference, {
+            preserveScroll: true,
+        });
+    };
+
     const handlePageChange = (page: number) => {
-        router.get(
-            '/tasks',
-            {
-                search: searchTerm,
-                filter: completionFilter,
-                page,
-            },
-            {
-                preserveState: true,
-                preserveScroll: true,
-            },
-        );
+        visit({ page });
     };
 
     return (
         <AppLayout breadcrumbs={breadcrumbs}>
             <Head title="Tasks" />
             <div className="flex h-full flex-1 flex-col gap-6 rounded-xl bg-gradient-to-br from-background to-muted/20 p-6">
-                {showToast && (
+                {(showToast || canUndo) && (
                     <div
-                        className={`fixed top-4 right-4 z-50 flex items-center gap-2 rounded-lg p-4 shadow-lg ${toastType === 'success' ? 'bg-green-500 text-white' : 'bg-red-500 text-white'} animate-in slide-in-from-top-5 fade-in`}
+                        className={`fixed top-4 right-4 z-50 flex items-center gap-2 rounded-lg p-4 shadow-lg ${toastIsError ? 'bg-red-500 text-white' : 'bg-green-500 text-white'} animate-in slide-in-from-top-5 fade-in`}
                     >
-                        {toastType === 'success' ? (
-                            <CheckCircle2 className="h-5 w-5" />
-                        ) : (
+                        {toastIsError ? (
                             <XCircle className="h-5 w-5" />
+                        ) : (
+                            <CheckCircle2 className="h-5 w-5" />
+                        )}
+                        <span className="ml-2">
+                            {showToast ? toastMessage : undo?.message}
+                        </span>
+                        {canUndo && (
+                            <Button
+                                size="sm"
+                                variant="secondary"
+                                onClick={handleUndo}
+                                className="ml-2"
+                            >
+                                <Undo2 className="mr-1 h-4 w-4" />
+                                Undo
+                            </Button>
                         )}
-                        <span className="ml-2">{toastMessage}</span>
                     </div>
                 )}
-                <div className="flex flex-colmb-4 items-center justify-between">
+                <div className="flex-colmb-4 flex items-center justify-between">
                     <div>
                         <h1 className="text-3xl font-bold tracking-tight">
                             Tasks
@@ -308,24 +711,105 @@ export default function TaskIndex({ tasks, lists, filters, flash }: Props) {
                                         </div>
 
                                         <div className="space-y-2">
-                                            <Label htmlFor="due_date">
-                                                Due Date
+                                            <Label htmlFor="priority">
+                                                Priority
                                             </Label>
-                                            <Input
-                                                id="due_date"
-                                                type="date"
-                                                value={data.due_date}
-                                                onChange={(e) =>
-                                                    setData(
-                                                        'due_date',
-                                                        e.target.value,
-                                                    )
+                                            <Select
+                                                value={data.priority}
+                                                onValueChange={(
+                                                    value: TaskPriority,
+                                                ) => setData('priority', value)}
+                                            >
+                                                <SelectTrigger
+                                                    id="priority"
+                                                    className="focus:ring-2 focus:ring-primary"
+                                                >
+                                                    <SelectValue placeholder="Select a priority" />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {priorities.map(
+                                                        (priority) => (
+                                                            <SelectItem
+                                                                key={priority}
+                                                                value={priority}
+                                                            >
+                                                                {
+                                                                    priorityLabels[
+                                                                        priority
+                                                                    ]
+                                                                }
+                                                            </SelectItem>
+                                                        ),
+                                                    )}
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+
+                                        <div className="grid grid-cols-[1fr_auto] gap-2">
+                                            <div className="space-y-2">
+                                                <Label htmlFor="due_date">
+                                                    Due Date
+                                                </Label>
+                                                <Input
+                                                    id="due_date"
+                                                    type="date"
+                                                    value={data.due_date}
+                                                    onChange={(e) =>
+                                                        setData(
+                                                            'due_date',
+                                                            e.target.value,
+                                                        )
+                                                    }
+                                                    className="focus:ring-2 focus:ring-primary"
+                                                    required
+                                                />
+                                            </div>
+                                            <div className="space-y-2">
+                                                <Label htmlFor="due_time">
+                                                    Time
+                                                </Label>
+                                                <Input
+                                                    id="due_time"
+                                                    type="time"
+                                                    value={data.due_time}
+                                                    onChange={(e) =>
+                                                        setData(
+                                                            'due_time',
+                                                            e.target.value,
+                                                        )
+                                                    }
+                                                    className="focus:ring-2 focus:ring-primary"
+                                                />
+                                            </div>
+                                        </div>
+
+                                        <ReminderFields
+                                            presets={reminderPresets}
+                                            value={data.reminders}
+                                            onChange={(value) =>
+                                                setData('reminders', value)
+                                            }
+                                            hasDueDate={data.due_date !== ''}
+                                        />
+
+                                        <div className="space-y-2">
+                                            <Label>Tags</Label>
+                                            <TagPicker
+                                                tags={tags}
+                                                value={data.tag_ids}
+                                                onChange={(value) =>
+                                                    setData('tag_ids', value)
                                                 }
-                                                className="focus:ring-2 focus:ring-primary"
-                                                required
                                             />
                                         </div>
 
+                                        <RecurrenceFields
+                                            value={data.recurrence}
+                                            onChange={(value) =>
+                                                setData('recurrence', value)
+                                            }
+                                        />
+
                                         <div className="flex items-center space-x-2">
                                             <input
                                                 type="checkbox"
@@ -343,6 +827,25 @@ export default function TaskIndex({ tasks, lists, filters, flash }: Props) {
                                                 Completed
                                             </Label>
                                         </div>
+
+                                        <div className="flex items-center space-x-2">
+                                            <input
+                                                type="checkbox"
+                                                id="auto_complete"
+                                                checked={data.auto_complete}
+                                                onChange={(e) =>
+                                                    setData(
+                                                        'auto_complete',
+                                                        e.target.checked,
+                                                    )
+                                                }
+                                                className="h-4 rounded border-gray-300 focus:ring-2 focus:ring-primary"
+                                            />
+                                            <Label htmlFor="auto_complete">
+                                                Complete automatically when the
+                                                checklist is done
+                                            </Label>
+                                        </div>
                                     </div>
                                     <Button
                                         type="submit"
@@ -352,199 +855,666 @@ export default function TaskIndex({ tasks, lists, filters, flash }: Props) {
                                         {editingTask ? 'Update' : 'Create'}
                                     </Button>
                                 </form>
+
+                                {currentTask ? (
+                                    <TaskChecklist task={currentTask} />
+                                ) : (
+                                    <p className="text-sm text-muted-foreground">
+                                        Create the task to start adding
+                                        checklist items.
+                                    </p>
+                                )}
                             </DialogContent>
                         </Dialog>
                     </div>
                 </div>
-                <div className="flex item-center justify-between gap-4">
-                        <form onSubmit={handleSearch} className="relative">
-                            <Search className="absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 transform text-muted-foreground" />
+                <TaskQuickAdd lists={lists} defaultListId={filters.lists[0]} />
+
+                <div className="item-center flex flex-wrap justify-between gap-4">
+                    <form onSubmit={handleSearch}>
+                        <TaskSearchInput
+                            inputRef={searchInput}
+                            value={searchTerm}
+                            onChange={setSearchTerm}
+                            invalid={query.errors.length > 0}
+                            keys={query.keys}
+                            values={{
+                                list: lists.map((list) => list.title),
+                                tag: tags.map((tag) => tag.name),
+                                is: query.states,
+                                priority: priorities,
+                                due: ['today', 'tomorrow', ...dueWindows],
+                            }}
+                        />
+                    </form>
+
+                    <Select
+                        value={completionFilter}
+                        onValueChange={handleFilterChange}
+                    >
+                        <SelectTrigger className="w-[180px]">
+                            <SelectValue placeholder="Filter by status" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="completed">Completed</SelectItem>
+                            <SelectItem value="pending">Pending</SelectItem>
+                            <SelectItem value="all">All Task</SelectItem>
+                        </SelectContent>
+                    </Select>
+
+                    {lists.length > 0 && (
+                        <TaskListFilter
+                            lists={lists}
+                            selected={listFilter}
+                            onChange={handleListFilterChange}
+                        />
+                    )}
+
+                    <Select
+                        value={dueFilter}
+                        onValueChange={handleDueFilterChange}
+                    >
+                        <SelectTrigger className="w-[180px]">
+                            <SelectValue placeholder="Filter by due date" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">Any Due Date</SelectItem>
+                            {dueWindows.map((window) => (
+                                <SelectItem key={window} value={window}>
+                                    {dueLabels[window]}
+                                </SelectItem>
+                            ))}
+                            <SelectItem value="range">Date range…</SelectItem>
+                        </SelectContent>
+                    </Select>
+
+                    {dueFilter === 'range' && (
+                        <div className="flex items-center gap-1">
                             <Input
-                                placeholder="Search tasks..."
-                                value={searchTerm}
-                                onChange={(e) => setSearchTerm(e.target.value)}
-                                className="w-64 pl-10"
+                                type="date"
+                                value={dueFrom}
+                                max={dueTo || undefined}
+                                onChange={(e) =>
+                                    handleDueRangeChange(e.target.value, dueTo)
+                                }
+                                aria-label="Due from"
+                                className="w-36"
                             />
-                        </form>
+                            <span className="text-muted-foreground">–</span>
+                            <Input
+                                type="date"
+                                value={dueTo}
+                                min={dueFrom || undefined}
+                                onChange={(e) =>
+                                    handleDueRangeChange(
+                                        dueFrom,
+                                        e.target.value,
+                                    )
+                                }
+                                aria-label="Due to"
+                                className="w-36"
+                            />
+                        </div>
+                    )}
 
+                    {tags.length > 0 && (
                         <Select
-                            value={completionFilter}
-                            onValueChange={handleFilterChange}
+                            value={tagFilter}
+                            onValueChange={handleTagFilterChange}
                         >
                             <SelectTrigger className="w-[180px]">
-                                <SelectValue placeholder="Filter by status" />
+                                <SelectValue placeholder="Filter by tag" />
                             </SelectTrigger>
                             <SelectContent>
-                                <SelectItem value="completed">
-                                    Completed
-                                </SelectItem>
-                                <SelectItem value="pending">Pending</SelectItem>
-                                <SelectItem value="all">All Task</SelectItem>
+                                <SelectItem value="all">All Tags</SelectItem>
+                                {tags.map((tag) => (
+                                    <SelectItem
+                                        key={tag.id}
+                                        value={tag.id.toString()}
+                                    >
+                                        {tag.name}
+                                    </SelectItem>
+                                ))}
                             </SelectContent>
                         </Select>
-                    </div>
+                    )}
 
-                <div className="rounded-md border">
-                    <div className="relative w-full overflow-auto">
-                        <table className="w-full caption-bottom text-sm">
-                            <thead className="[&_tr]:border-b">
-                                <tr className="border-b transition-colors hover:bg-muted/50 data-[state=selected]:bg-muted">
-                                    <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">
-                                        Title
-                                    </th>
-                                    <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">
-                                        Description
-                                    </th>
-                                    <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">
-                                        List
-                                    </th>
-                                    <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">
-                                        Due Date
-                                    </th>
-                                    <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">
-                                        Status
-                                    </th>
-                                    <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">
-                                        Actions
-                                    </th>
-                                </tr>
-                            </thead>
-                            <tbody className="[&_tr:last-child:border-0]">
-                                {tasks.data.map((task) => (
-                                    <tr
-                                        key={task.id}
-                                        className="border-b transition-colors hover:bg-muted/50 data-[state=selected]:bg-muted"
-                                    >
-                                        <td className="p-4 align-middle font-medium">
-                                            {task.title}
-                                        </td>
-                                        <td className="max-w-[200px] truncate p-4 align-middle">
-                                            {task.description ||
-                                                'No Description'}
-                                        </td>
-                                        <td className="p-4 align-middle">
-                                            <div className="flex items-center gap-2">
-                                                <List className="h-4 w-4 text-muted-foreground" />
-                                                {task.list.title}
-                                            </div>
-                                        </td>
-                                        <td className="p-4 align-middle">
-                                            {task.due_date ? (
-                                                <div className="flex items-center gap-2">
-                                                    <Calendar className="h-4 w-4 text-muted-foreground" />
-                                                    {new Date(
-                                                        task.due_date,
-                                                    ).toLocaleDateString()}
-                                                </div>
-                                            ) : (
-                                                <span className="text-muted-foreground">
-                                                    No Due Date
-                                                </span>
-                                            )}
-                                        </td>
-                                        <td className="p-4 align-middle">
-                                            {task.is_completed ? (
-                                                <div className="flex items-center gap-2 text-green-500">
-                                                    <CheckCircle className="h-4 w-4 text-muted-foreground" />
-                                                    <span>Completed</span>
-                                                </div>
-                                            ) : (
-                                                <div className="flex items-center gap-2 text-yellow-500">
-                                                    <span>Pending</span>
-                                                </div>
-                                            )}
-                                        </td>
-                                        <td className="p-4 text-right align-middle">
-                                            <div className="flex justify-end gap-2">
-                                                <Button
-                                                    variant="ghost"
-                                                    size="icon"
-                                                    onClick={() =>
-                                                        handleEdit(task)
-                                                    }
-                                                    className="hover:bg-primary/10 hover:text-primary"
-                                                >
-                                                    <Pencil className="h-4 w-4" />
-                                                </Button>
-                                                <Button
-                                                    variant="ghost"
-                                                    size="icon"
-                                                    onClick={() =>
-                                                        handleDelete(task.id)
-                                                    }
-                                                    className="hover:bg-destructive/10 hover:text-destructive"
-                                                >
-                                                    <Trash2 className="h-4 w-4" />
-                                                </Button>
-                                            </div>
-                                        </td>
-                                    </tr>
+                    <Select
+                        value={priorityFilter}
+                        onValueChange={handlePriorityFilterChange}
+                    >
+                        <SelectTrigger className="w-[180px]">
+                            <SelectValue placeholder="Filter by priority" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">All Priorities</SelectItem>
+                            {priorities.map((priority) => (
+                                <SelectItem key={priority} value={priority}>
+                                    {priorityLabels[priority]}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+
+                    <Select
+                        value={filters.sort}
+                        onValueChange={handleSortChange}
+                    >
+                        <SelectTrigger className="w-[180px]">
+                            <SelectValue placeholder="Sort by" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {(Object.keys(sortLabels) as TaskSort[])
+                                .filter(
+                                    (value) =>
+                                        value !== 'relevance' ||
+                                        query.words.length > 0,
+                                )
+                                .map((value) => (
+                                    <SelectItem key={value} value={value}>
+                                        {sortLabels[value]}
+                                    </SelectItem>
                                 ))}
-                                {tasks.data.length === 0 && (
-                                    <tr>
-                                        <td
-                                            colSpan={6}
-                                            className="p-4 text-center text-muted-foreground"
-                                        >
-                                            No tasks found.
-                                        </td>
-                                    </tr>
-                                )}
-                            </tbody>
-                        </table>
-                    </div>
+                        </SelectContent>
+                    </Select>
+                    <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={handleDirectionToggle}
+                        aria-label={
+                            filters.direction === 'asc'
+                                ? 'Sorted ascending'
+                                : 'Sorted descending'
+                        }
+                        title={
+                            filters.direction === 'asc'
+                                ? 'Sorted ascending'
+                                : 'Sorted descending'
+                        }
+                    >
+                        {filters.direction === 'asc' ? (
+                            <ArrowUpNarrowWide className="h-4 w-4" />
+                        ) : (
+                            <ArrowDownWideNarrow className="h-4 w-4" />
+                        )}
+                    </Button>
 
-                    <div className="flex items-center justify-between p-4 px-2">
-                        <div className="text-sm text-muted-foreground ml-5">
-                            Showing {tasks.from} to {tasks.to} of {tasks.total}{' '}
-                            results
-                        </div>
-                        <div className="flex items-center space-x-2">
+                    {hasFilters && (
+                        <Button variant="ghost" onClick={handleClearFilters}>
+                            <XCircle className="mr-1 h-4 w-4" />
+                            Clear filters
+                        </Button>
+                    )}
+
+                    <SaveViewDialog filters={filters} />
+
+                    <div className="ml-auto flex items-center gap-2">
+                        {auth.user.keyboard_shortcuts !== false && (
                             <Button
-                                variant="outline"
+                                variant="ghost"
                                 size="icon"
+                                onClick={() => setShowShortcuts(true)}
+                                title="Keyboard shortcuts (?)"
+                            >
+                                <Keyboard className="h-4 w-4" />
+                            </Button>
+                        )}
+                        {view.mode === 'board' && (
+                            <Select
+                                value={view.group}
+                                onValueChange={(value: BoardGroup) =>
+                                    handleViewChange({
+                                        task_board_group: value,
+                                    })
+                                }
+                            >
+                                <SelectTrigger className="w-[160px]">
+                                    <SelectValue placeholder="Group by" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="list">
+                                        Group by list
+                                    </SelectItem>
+                                    <SelectItem value="status">
+                                        Group by status
+                                    </SelectItem>
+                                </SelectContent>
+                            </Select>
+                        )}
+                        <div className="inline-flex gap-1 rounded-lg bg-muted p-1">
+                            <Button
+                                variant={
+                                    view.mode === 'list' ? 'outline' : 'ghost'
+                                }
+                                size="sm"
                                 onClick={() =>
-                                    handlePageChange(tasks.current_page - 1)
+                                    handleViewChange({ task_view: 'list' })
                                 }
-                                disabled={tasks.current_page === 1}
                             >
-                                <ChevronLeft className="h-4 w-4" />
+                                <List className="h-4 w-4" /> List
                             </Button>
-                            <div className="flex items-center space-x-1">
-                                {Array.from(
-                                    { length: tasks.last_page },
-                                    (_, i) => i + 1,
-                                ).map((page) => (
-                                    <Button
-                                        key={page}
-                                        variant={
-                                            page === tasks.current_page
-                                                ? 'default'
-                                                : 'outline'
-                                        }
-                                        size="icon"
-                                        onClick={() => handlePageChange(page)}
-                                    >
-                                        {page}
-                                    </Button>
-                                ))}
-                            </div>
                             <Button
-                                variant="outline"
-                                size="icon"
-                                onClick={() =>
-                                    handlePageChange(tasks.current_page + 1)
+                                variant={
+                                    view.mode === 'board' ? 'outline' : 'ghost'
                                 }
-                                disabled={
-                                    tasks.current_page === tasks.last_page
+                                size="sm"
+                                onClick={() =>
+                                    handleViewChange({ task_view: 'board' })
                                 }
                             >
-                                <ChevronRight className="h-4 w-4" />
+                                <Columns3 className="h-4 w-4" /> Board
                             </Button>
                         </div>
                     </div>
                 </div>
+
+                {query.errors.length > 0 && (
+                    <div
+                        role="alert"
+                        className="-mt-2 space-y-1 rounded-lg border border-red-200 bg-red-50 px-3 py-2 dark:border-red-900 dark:bg-red-950/40"
+                    >
+                        {query.errors.map((error) => (
+                            <InputError key={error} message={error} />
+                        ))}
+                        <p className="text-xs text-muted-foreground">
+                            The rest of the search was still applied.
+                        </p>
+                    </div>
+                )}
+
+                {view.mode === 'board' ? (
+                    <TaskBoard
+                        tasks={board}
+                        lists={lists}
+                        statuses={statuses}
+                        group={view.group}
+                        onEdit={handleEdit}
+                    />
+                ) : (
+                    <div className="rounded-md border">
+                        {selected.length > 0 && (
+                            <TaskBulkBar
+                                selected={selected}
+                                lists={lists}
+                                tags={tags}
+                                onClear={() => setSelected([])}
+                            />
+                        )}
+                        <div className="relative w-full overflow-auto">
+                            <table className="w-full caption-bottom text-sm">
+                                <thead className="[&_tr]:border-b">
+                                    <tr className="border-b transition-colors hover:bg-muted/50 data-[state=selected]:bg-muted">
+                                        {canReorder && (
+                                            <th className="h-12 w-8 pl-2" />
+                                        )}
+                                        <th className="h-12 w-10 pl-4 align-middle">
+                                            <Checkbox
+                                                checked={allSelected}
+                                                onCheckedChange={(checked) =>
+                                                    handleSelectAll(
+                                                        checked === true,
+                                                    )
+                                                }
+                                                aria-label="Select all tasks on this page"
+                                            />
+                                        </th>
+                                        <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">
+                                            Title
+                                        </th>
+                                        <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">
+                                            Description
+                                        </th>
+                                        <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">
+                                            List
+                                        </th>
+                                        <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">
+                                            Priority
+                                        </th>
+                                        <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">
+                                            Due Date
+                                        </th>
+                                        <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">
+                                            Status
+                                        </th>
+                                        <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">
+                                            Actions
+                                        </th>
+                                    </tr>
+                                </thead>
+                                <tbody className="[&_tr:last-child:border-0]">
+                                    {rows.map((task) => (
+                                        <tr
+                                            key={task.id}
+                                            ref={(element) => {
+                                                if (
+                                                    focusedTask?.id === task.id
+                                                ) {
+                                                    element?.scrollIntoView({
+                                                        block: 'nearest',
+                                                    });
+                                                }
+                                            }}
+                                            aria-current={
+                                                focusedTask?.id === task.id ||
+                                                undefined
+                                            }
+                                            {...(canReorder
+                                                ? reorder.rowProps(task)
+                                                : {})}
+                                            data-state={
+                                                selected.includes(task.id)
+                                                    ? 'selected'
+                                                    : undefined
+                                            }
+                                            className={cn(
+                                                'border-b transition-colors hover:bg-muted/50 data-[state=selected]:bg-muted',
+                                                focusedTask?.id === task.id &&
+                                                    'bg-muted/50 shadow-[inset_3px_0_0_var(--primary)]',
+                                                reorder.draggingId ===
+                                                    task.id && 'opacity-50',
+                                                reorder.placementFor(task) ===
+                                                    'before' &&
+                                                    'shadow-[inset_0_2px_0_var(--primary)]',
+                                                reorder.placementFor(task) ===
+                                                    'after' &&
+                                                    'shadow-[inset_0_-2px_0_var(--primary)]',
+                                            )}
+                                        >
+                                            {canReorder && (
+                                                <td className="w-8 pl-2 align-middle">
+                                                    <span
+                                                        {...reorder.handleProps(
+                                                            task,
+                                                        )}
+                                                        className="flex cursor-grab text-muted-foreground active:cursor-grabbing"
+                                                        aria-label="Drag to reorder"
+                                                    >
+                                                        <GripVertical className="h-4 w-4" />
+                                                    </span>
+                                                </td>
+                                            )}
+                                            <td className="w-10 pl-4 align-middle">
+                                                <Checkbox
+                                                    checked={selected.includes(
+                                                        task.id,
+                                                    )}
+                                                    onClick={(e) => {
+                                                        e.preventDefault();
+                                                        handleSelect(
+                                                            task.id,
+                                                            e.shiftKey,
+                                                        );
+                                                    }}
+                                                    aria-label={`Select ${task.title}`}
+                                                />
+                                            </td>
+                                            <td className="p-4 align-middle font-medium">
+                                                <div className="space-y-1">
+                                                    <InlineTitle
+                                                        value={task.title}
+                                                        onSave={(title) =>
+                                                            handleInlineUpdate(
+                                                                task,
+                                                                { title },
+                                                            )
+                                                        }
+                                                    >
+                                                        <Highlight
+                                                            text={task.title}
+                                                            words={query.words}
+                                                        />
+                                                    </InlineTitle>
+                                                    {task.tags.length > 0 && (
+                                                        <div className="flex flex-wrap gap-1">
+                                                            {task.tags.map(
+                                                                (tag) => (
+                                                                    <TagBadge
+                                                                        key={
+                                                                            tag.id
+                                                                        }
+                                                                        tag={
+                                                                            tag
+                                                                        }
+                                                                    />
+                                                                ),
+                                                            )}
+                                                        </div>
+                                                    )}
+                                                    <ChecklistProgress
+                                                        items={
+                                                            task.checklist_items
+                                                        }
+                                                    />
+                                                </div>
+                                            </td>
+                                            <td className="max-w-[200px] truncate p-4 align-middle">
+                                                {task.description ? (
+                                                    <Highlight
+                                                        text={task.description}
+                                                        words={query.words}
+                                                    />
+                                                ) : (
+                                                    'No Description'
+                                                )}
+                                            </td>
+                                            <td className="p-4 align-middle">
+                                                <InlineList
+                                                    value={task.list_id}
+                                                    lists={lists}
+                                                    onSave={(listId) =>
+                                                        handleInlineUpdate(
+                                                            task,
+                                                            {
+                                                                list_id: listId,
+                                                            },
+                                                        )
+                                                    }
+                                                >
+                                                    <Highlight
+                                                        text={task.list.title}
+                                                        words={query.words}
+                                                    />
+                                                </InlineList>
+                                            </td>
+                                            <td className="p-4 align-middle">
+                                                <PriorityBadge
+                                                    priority={task.priority}
+                                                />
+                                            </td>
+                                            <td className="p-4 align-middle">
+                                                <InlineDueDate
+                                                    value={task.due_date}
+                                                    onSave={(dueDate) =>
+                                                        handleInlineUpdate(
+                                                            task,
+                                                            {
+                                                                due_date:
+                                                                    dueDate,
+                                                            },
+                                                        )
+                                                    }
+                                                />
+                                                {(task.due_time ||
+                                                    !!task.reminders
+                                                        ?.length) && (
+                                                    <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                                                        {task.due_time && (
+                                                            <>
+                                                                <Clock className="h-3 w-3" />
+                                                                {formatTime(
+                                                                    task.due_time,
+                                                                )}
+                                                            </>
+                                                        )}
+                                                        {!!task.reminders
+                                                            ?.length && (
+                                                            <Bell
+                                                                className="h-3 w-3"
+                                                                aria-label={`${task.reminders.length} reminders`}
+                                                            />
+                                                        )}
+                                                    </div>
+                                                )}
+                                                {task.recurrence && (
+                                                    <div
+                                                        className="mt-1 flex items-center gap-2 text-xs text-muted-foreground"
+                                                        title={`${task.completed_occurrences_count ?? 0} completed in this series`}
+                                                    >
+                                                        <Repeat className="h-3 w-3" />
+                                                        {describeRecurrence(
+                                                            task.recurrence,
+                                                        )}
+                                                    </div>
+                                                )}
+                                            </td>
+                                            <td className="p-4 align-middle">
+                                                <button
+                                                    type="button"
+                                                    onClick={() =>
+                                                        handleToggle(task)
+                                                    }
+                                                    title={
+                                                        task.is_completed
+                                                            ? 'Mark as pending'
+                                                            : 'Mark as completed'
+                                                    }
+                                                    className="cursor-pointer hover:opacity-75"
+                                                >
+                                                    {task.is_completed ? (
+                                                        <div className="flex items-center gap-2 text-green-500">
+                                                            <CheckCircle className="h-4 w-4 text-muted-foreground" />
+                                                            <span>
+                                                                Completed
+                                                            </span>
+                                                        </div>
+                                                    ) : task.status ===
+                                                      'in_progress' ? (
+                                                        <div className="flex items-center gap-2 text-blue-500">
+                                                            <span>
+                                                                In Progress
+                                                            </span>
+                                                        </div>
+                                                    ) : (
+                                                        <div className="flex items-center gap-2 text-yellow-500">
+                                                            <span>Pending</span>
+                                                        </div>
+                                                    )}
+                                                </button>
+                                            </td>
+                                            <td className="p-4 text-right align-middle">
+                                                <div className="flex justify-end gap-2">
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        asChild
+                                                        className="hover:bg-primary/10 hover:text-primary"
+                                                    >
+                                                        <Link
+                                                            href={`/tasks/${task.id}`}
+                                                            aria-label={`Open ${task.title}`}
+                                                        >
+                                                            <Eye className="h-4 w-4" />
+                                                        </Link>
+                                                    </Button>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        onClick={() =>
+                                                            handleEdit(task)
+                                                        }
+                                                        className="hover:bg-primary/10 hover:text-primary"
+                                                    >
+                                                        <Pencil className="h-4 w-4" />
+                                                    </Button>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        onClick={() =>
+                                                            handleDelete(
+                                                                task.id,
+                                                            )
+                                                        }
+                                                        className="hover:bg-destructive/10 hover:text-destructive"
+                                                    >
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </Button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                    {rows.length === 0 && (
+                                        <tr>
+                                            <td
+                                                colSpan={canReorder ? 9 : 8}
+                                                className="p-4 text-center text-muted-foreground"
+                                            >
+                                                No tasks found.
+                                            </td>
+                                        </tr>
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        <div className="flex items-center justify-between p-4 px-2">
+                            <div className="ml-5 text-sm text-muted-foreground">
+                                Showing {tasks.from} to {tasks.to} of{' '}
+                                {tasks.total} results
+                            </div>
+                            <div className="flex items-center space-x-2">
+                                <Button
+                                    variant="outline"
+                                    size="icon"
+                                    onClick={() =>
+                                        handlePageChange(tasks.current_page - 1)
+                                    }
+                                    disabled={tasks.current_page === 1}
+                                >
+                                    <ChevronLeft className="h-4 w-4" />
+                                </Button>
+                                <div className="flex items-center space-x-1">
+                                    {Array.from(
+                                        { length: tasks.last_page },
+                                        (_, i) => i + 1,
+                                    ).map((page) => (
+                                        <Button
+                                            key={page}
+                                            variant={
+                                                page === tasks.current_page
+                                                    ? 'default'
+                                                    : 'outline'
+                                            }
+                                            size="icon"
+                                            onClick={() =>
+                                                handlePageChange(page)
+                                            }
+                                        >
+                                            {page}
+                                        </Button>
+                                    ))}
+                                </div>
+                                <Button
+                                    variant="outline"
+                                    size="icon"
+                                    onClick={() =>
+                                        handlePageChange(tasks.current_page + 1)
+                                    }
+                                    disabled={
+                                        tasks.current_page === tasks.last_page
+                                    }
+                                >
+                                    <ChevronRight className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        </div>
+                    </div>
+                )}
             </div>
+            <KeyboardShortcutsDialog
+                open={showShortcuts}
+                onOpenChange={setShowShortcuts}
+                shortcuts={shortcutHelp}
+            />
         </AppLayout>
     );
 }
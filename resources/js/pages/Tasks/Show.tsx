@@ -0,0 +1,143 @@
+import PriorityBadge from '@/components/priority-badge';
+import { describeRecurrence } from '@/components/recurrence-fields';
+import { describeReminder } from '@/components/reminder-fields';
+import TagBadge from '@/components/tag-badge';
+import { statusLabels } from '@/components/task-board';
+import TaskChecklist from '@/components/task-checklist';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import AppLayout from '@/layouts/app-layout';
+import { formatTime, parseDate } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+import { type BreadcrumbItem, type Task } from '@/types';
+import { Head, Link, router } from '@inertiajs/react';
+
+import { Bell, Calendar, List, Repeat, Trash2 } from 'lucide-react';
+
+interface Props {
+    task: Task;
+}
+
+export default function TasksShow({ task }: Props) {
+    const breadcrumbs: BreadcrumbItem[] = [
+        { title: 'Lists', href: '/lists' },
+        { title: task.list.title, href: `/lists/${task.list.id}` },
+        { title: task.title, href: `/tasks/${task.id}` },
+    ];
+
+    const handleDelete = () => {
+        if (confirm(`Delete "${task.title}"?`)) {
+            router.delete(`/tasks/${task.id}`);
+        }
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title={task.title} />
+            <div className="mx-auto flex w-full max-w-3xl flex-col gap-6 p-6">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h1
+                            className={cn(
+                                'text-3xl font-bold tracking-tight',
+                                task.is_completed &&
+                                    'text-muted-foreground line-through',
+                            )}
+                        >
+                            {task.title}
+                        </h1>
+                        <div className="mt-3 flex flex-wrap items-center gap-2">
+                            <Badge variant="outline">
+                                {statusLabels[task.status]}
+                            </Badge>
+                            {task.priority !== 'none' && (
+                                <PriorityBadge priority={task.priority} />
+                            )}
+                            {task.tags.map((tag) => (
+                                <TagBadge key={tag.id} tag={tag} />
+                            ))}
+                        </div>
+                    </div>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={handleDelete}
+                        className="hover:bg-destructive/10 hover:text-destructive"
+                    >
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                </div>
+
+                <dl className="grid gap-3 rounded-xl border p-4 text-sm sm:grid-cols-2">
+                    <div className="flex items-center gap-2">
+                        <dt className="flex items-center gap-1 text-muted-foreground">
+                            <List className="h-4 w-4" />
+                            List
+                        </dt>
+                        <dd>
+                            <Link
+                                href={`/lists/${task.list.id}`}
+                                className="font-medium hover:underline"
+                            >
+                                {task.list.title}
+                            </Link>
+                        </dd>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <dt className="flex items-center gap-1 text-muted-foreground">
+                            <Calendar className="h-4 w-4" />
+                            Due
+                        </dt>
+                        <dd className="font-medium">
+                            {task.due_date
+                                ? parseDate(task.due_date).toLocaleDateString()
+                                : 'No due date'}
+                            {task.due_date &&
+                                task.due_time &&
+                                ` at ${formatTime(task.due_time)}`}
+                        </dd>
+                    </div>
+                    {!!task.reminders?.length && (
+                        <div className="flex items-center gap-2 sm:col-span-2">
+                            <dt className="flex items-center gap-1 text-muted-foreground">
+                                <Bell className="h-4 w-4" />
+                                Reminders
+                            </dt>
+                            <dd className="font-medium">
+                                {task.reminders
+                                    .map((reminder) =>
+                                        describeReminder(
+                                            reminder.minutes_before,
+                                        ),
+                                    )
+                                    .join(', ')}
+                            </dd>
+                        </div>
+                    )}
+                    {task.recurrence && (
+                        <div className="flex items-center gap-2 sm:col-span-2">
+                            <dt className="flex items-center gap-1 text-muted-foreground">
+                                <Repeat className="h-4 w-4" />
+                                Repeats
+                            </dt>
+                            <dd className="font-medium">
+                                {describeRecurrence(task.recurrence)}
+                                {!!task.completed_occurrences_count &&
+                                    ` · ${task.completed_occurrences_count} completed`}
+                            </dd>
+                        </div>
+                    )}
+                </dl>
+
+                <div>
+                    <h2 className="mb-2 text-sm font-medium">Description</h2>
+                    <p className="text-sm whitespace-pre-line text-muted-foreground">
+                        {task.description || 'No description'}
+                    </p>
+                </div>
+
+                <TaskChecklist task={task} />
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,197 @@
+import { Button } from '@/components/ui/button';
+import AppLayout from '@/layouts/app-layout';
+import { type BreadcrumbItem } from '@/types';
+import { Head, router } from '@inertiajs/react';
+
+import { ClipboardList, ListTodo, RotateCcw, Trash2 } from 'lucide-react';
+
+interface TrashedTask {
+    id: number;
+    title: string;
+    deleted_at: string;
+    list: {
+        id: number;
+        title: string;
+    };
+}
+
+interface TrashedList {
+    id: number;
+    title: string;
+    tasks_count: number;
+    deleted_at: string;
+}
+
+interface Props {
+    tasks: TrashedTask[];
+    lists: TrashedList[];
+    retentionDays: number;
+}
+
+const breadcrumbs: BreadcrumbItem[] = [{ title: 'Trash', href: '/trash' }];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function TrashRow({
+    icon: Icon,
+    title,
+    detail,
+    deletedAt,
+    retentionDays,
+    onRestore,
+    onPurge,
+}: {
+    icon: typeof ListTodo;
+    title: string;
+    detail: string;
+    deletedAt: string;
+    retentionDays: number;
+    onRestore: () => void;
+    onPurge: () => void;
+}) {
+    const deleted = new Date(deletedAt);
+    const purgedOn = new Date(deleted.getTime() + retentionDays * DAY);
+
+    return (
+        <div className="flex items-center gap-3 p-4">
+            <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <div className="min-w-0 flex-1">
+                <p className="truncate font-medium">{title}</p>
+                <p className="text-xs text-muted-foreground">
+                    {detail} · Deleted {deleted.toLocaleDateString()} · Purged
+                    on {purgedOn.toLocaleDateString()}
+                </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={onRestore}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Restore
+            </Button>
+            <Button
+                variant="ghost"
+                size="icon"
+                onClick={onPurge}
+                className="hover:bg-destructive/10 hover:text-destructive"
+            >
+                <Trash2 className="h-4 w-4" />
+            </Button>
+        </div>
+    );
+}
+
+export default function TrashIndex({ tasks, lists, retentionDays }: Props) {
+    const options = {
+        preserveScroll: true,
+    };
+
+    const purge = (url: string, title: string) => {
+        if (confirm(`Permanently delete "${title}"? This cannot be undone.`)) {
+            router.delete(url, options);
+        }
+    };
+
+    const handleEmpty = () => {
+        if (confirm('Permanently delete everything in the trash?')) {
+            router.delete('/trash', options);
+        }
+    };
+
+    const isEmpty = tasks.length === 0 && lists.length === 0;
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Trash" />
+            <div className="flex h-full flex-1 flex-col gap-6 rounded-xl p-6">
+                <div className="flex items-center justify-between gap-4">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">
+                            Trash
+                        </h1>
+                        <p className="mt-1 text-muted-foreground">
+                            Deleted items are permanently removed after{' '}
+                            {retentionDays} days.
+                        </p>
+                    </div>
+                    <Button
+                        variant="destructive"
+                        onClick={handleEmpty}
+                        disabled={isEmpty}
+                    >
+                        Empty trash
+                    </Button>
+                </div>
+
+                {isEmpty && (
+                    <p className="rounded-xl border p-6 text-center text-sm text-muted-foreground">
+                        The trash is empty.
+                    </p>
+                )}
+
+                {lists.length > 0 && (
+                    <section className="space-y-2">
+                        <h2 className="text-sm font-semibold">Lists</h2>
+                        <div className="divide-y rounded-xl border">
+                            {lists.map((list) => (
+                                <TrashRow
+                                    key={list.id}
+                                    icon={ClipboardList}
+                                    title={list.title}
+                                    detail={
+                                        list.tasks_count === 1
+                                            ? '1 task'
+                                            : `${list.tasks_count} tasks`
+                                    }
+                                    deletedAt={list.deleted_at}
+                                    retentionDays={retentionDays}
+                                    onRestore={() =>
+                                        router.patch(
+                                            `/trash/lists/${list.id}`,
+                                            {},
+                                            options,
+                                        )
+                                    }
+                                    onPurge={() =>
+                                        purge(
+                                            `/trash/lists/${list.id}`,
+                                            list.title,
+                                        )
+                                    }
+                                />
+                            ))}
+                        </div>
+                    </section>
+                )}
+
+                {tasks.length > 0 && (
+                    <section className="space-y-2">
+                        <h2 className="text-sm font-semibold">Tasks</h2>
+                        <div className="divide-y rounded-xl border">
+                            {tasks.map((task) => (
+                                <TrashRow
+                                    key={task.id}
+                                    icon={ListTodo}
+                                    title={task.title}
+                                    detail={task.list.title}
+                                    deletedAt={task.deleted_at}
+                                    retentionDays={retentionDays}
+                                    onRestore={() =>
+                                        router.patch(
+                                            `/trash/tasks/${task.id}`,
+                                            {},
+                                            options,
+                                        )
+                                    }
+                                    onPurge={() =>
+                                        purge(
+                                            `/trash/tasks/${task.id}`,
+                                            task.title,
+                                        )
+                                    }
+                                />
+                            ))}
+                        </div>
+                    </section>
+                )}
+            </div>
+        </AppLayout>
+    );
+}
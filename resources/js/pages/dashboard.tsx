@@ -1,8 +1,41 @@
-import { PlaceholderPattern } from '@/components/ui/placeholder-pattern';
+import PriorityBadge from '@/components/priority-badge';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
 import AppLayout from '@/layouts/app-layout';
+import { parseDate } from '@/lib/dates';
+import { cn } from '@/lib/utils';
 import { dashboard } from '@/routes';
-import { type BreadcrumbItem } from '@/types';
-import { Head } from '@inertiajs/react';
+import { type BreadcrumbItem, type Task } from '@/types';
+import { Head, Link } from '@inertiajs/react';
+import { AlertTriangle, CalendarCheck, CheckCircle2, List } from 'lucide-react';
+
+interface ListProgress {
+    id: number;
+    title: string;
+    tasks_count: number;
+    completed_tasks_count: number;
+}
+
+interface TrendPoint {
+    date: string;
+    count: number;
+}
+
+interface Props {
+    dueToday: Task[];
+    stats: {
+        due_today: number;
+        overdue: number;
+        completed_this_week: number;
+    };
+    lists: ListProgress[];
+    trend: TrendPoint[];
+}
 
 const breadcrumbs: BreadcrumbItem[] = [
     {
@@ -11,24 +44,184 @@ const breadcrumbs: BreadcrumbItem[] = [
     },
 ];
 
-export default function Dashboard() {
+function StatCard({
+    title,
+    value,
+    icon: Icon,
+    className,
+}: {
+    title: string;
+    value: number;
+    icon: typeof CheckCircle2;
+    className: string;
+}) {
+    return (
+        <Card className="gap-2">
+            <CardHeader className="flex flex-row items-center justify-between">
+                <CardDescription>{title}</CardDescription>
+                <Icon className={cn('h-5 w-5', className)} />
+            </CardHeader>
+            <CardContent>
+                <p className="text-3xl font-bold">{value}</p>
+            </CardContent>
+        </Card>
+    );
+}
+
+export default function Dashboard({ dueToday, stats, lists, trend }: Props) {
+    const peak = Math.max(1, ...trend.map((point) => point.count));
+    const trendTotal = trend.reduce((total, point) => total + point.count, 0);
+
     return (
         <AppLayout breadcrumbs={breadcrumbs}>
             <Head title="Dashboard" />
             <div className="flex h-full flex-1 flex-col gap-4 overflow-x-auto rounded-xl p-4">
                 <div className="grid auto-rows-min gap-4 md:grid-cols-3">
-                    <div className="relative aspect-video overflow-hidden rounded-xl border border-sidebar-border/70 dark:border-sidebar-border">
-                        <PlaceholderPattern className="absolute inset-0 size-full stroke-neutral-900/20 dark:stroke-neutral-100/20" />
-                    </div>
-                    <div className="relative aspect-video overflow-hidden rounded-xl border border-sidebar-border/70 dark:border-sidebar-border">
-                        <PlaceholderPattern className="absolute inset-0 size-full stroke-neutral-900/20 dark:stroke-neutral-100/20" />
-                    </div>
-                    <div className="relative aspect-video overflow-hidden rounded-xl border border-sidebar-border/70 dark:border-sidebar-border">
-                        <PlaceholderPattern className="absolute inset-0 size-full stroke-neutral-900/20 dark:stroke-neutral-100/20" />
-                    </div>
+                    <StatCard
+                        title="Due today"
+                        value={stats.due_today}
+                        icon={CalendarCheck}
+                        className="text-blue-500"
+                    />
+                    <StatCard
+                        title="Overdue"
+                        value={stats.overdue}
+                        icon={AlertTriangle}
+                        className="text-red-500"
+                    />
+                    <StatCard
+                        title="Completed this week"
+                        value={stats.completed_this_week}
+                        icon={CheckCircle2}
+                        className="text-green-500"
+                    />
                 </div>
-                <div className="relative min-h-[100vh] flex-1 overflow-hidden rounded-xl border border-sidebar-border/70 md:min-h-min dark:border-sidebar-border">
-                    <PlaceholderPattern className="absolute inset-0 size-full stroke-neutral-900/20 dark:stroke-neutral-100/20" />
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Completion trend</CardTitle>
+                        <CardDescription>
+                            {trendTotal} tasks completed in the last{' '}
+                            {trend.length} days
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="flex h-40 items-end gap-1">
+                            {trend.map((point) => (
+                                <div
+                                    key={point.date}
+                                    title={`${parseDate(point.date).toLocaleDateString()}: ${point.count} completed`}
+                                    className="flex h-full flex-1 items-end"
+                                >
+                                    <div
+                                        className="w-full rounded-t bg-primary/80 transition-all"
+                                        style={{
+                                            height: `${(point.count / peak) * 100}%`,
+                                            minHeight: point.count > 0 ? 4 : 1,
+                                        }}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <div className="grid gap-4 md:grid-cols-2">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Due today</CardTitle>
+                            <CardDescription>
+                                Open tasks that need finishing today
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            {dueToday.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">
+                                    Nothing due today.
+                                </p>
+                            ) : (
+                                <ul className="space-y-3">
+                                    {dueToday.map((task) => (
+                                        <li
+                                            key={task.id}
+                                            className="flex items-center justify-between gap-3"
+                                        >
+                                            <div className="min-w-0">
+                                                <p className="truncate text-sm font-medium">
+                                                    {task.title}
+                                                </p>
+                                                <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                                                    <List className="h-3 w-3" />
+                                                    {task.list.title}
+                                                </p>
+                                            </div>
+                                            {task.priority !== 'none' && (
+                                                <PriorityBadge
+                                                    priority={task.priority}
+                                                />
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Lists</CardTitle>
+                            <CardDescription>
+                                Completion across your lists
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            {lists.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">
+                                    You don't have any lists yet.{' '}
+                                    <Link
+                                        href="/lists"
+                                        className="underline underline-offset-4"
+                                    >
+                                        Create one
+                                    </Link>
+                                </p>
+                            ) : (
+                                <ul className="space-y-4">
+                                    {lists.map((list) => {
+                                        const ratio =
+                                            list.tasks_count > 0
+                                                ? list.completed_tasks_count /
+                                                  list.tasks_count
+                                                : 0;
+
+                                        return (
+                                            <li key={list.id}>
+                                                <div className="mb-1 flex justify-between text-sm">
+                                                    <span className="font-medium">
+                                                        {list.title}
+                                                    </span>
+                                                    <span className="text-muted-foreground">
+                                                        {
+                                                            list.completed_tasks_count
+                                                        }
+                                                        /{list.tasks_count}
+                                                    </span>
+                                                </div>
+                                                <div className="h-2 overflow-hidden rounded-full bg-muted">
+                                                    <div
+                                                        className="h-full rounded-full bg-green-500 transition-all"
+                                                        style={{
+                                                            width: `${ratio * 100}%`,
+                                                        }}
+                                                    />
+                                                </div>
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            )}
+                        </CardContent>
+                    </Card>
                 </div>
             </div>
         </AppLayout>
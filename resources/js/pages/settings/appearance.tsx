@@ -1,12 +1,14 @@
-import { Head } from '@inertiajs/react';
+import { Head, router, usePage } from '@inertiajs/react';
 
 import AppearanceTabs from '@/components/appearance-tabs';
 import HeadingSmall from '@/components/heading-small';
-import { type BreadcrumbItem } from '@/types';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { type BreadcrumbItem, type SharedData } from '@/types';
 
 import AppLayout from '@/layouts/app-layout';
 import SettingsLayout from '@/layouts/settings/layout';
-import { edit as editAppearance } from '@/routes/appearance';
+import { edit as editAppearance, update } from '@/routes/appearance';
 
 const breadcrumbs: BreadcrumbItem[] = [
     {
@@ -16,6 +18,16 @@ const breadcrumbs: BreadcrumbItem[] = [
 ];
 
 export default function Appearance() {
+    const { auth } = usePage<SharedData>().props;
+
+    const handleShortcutsChange = (checked: boolean) => {
+        router.patch(
+            update().url,
+            { keyboard_shortcuts: checked },
+            { preserveScroll: true },
+        );
+    };
+
     return (
         <AppLayout breadcrumbs={breadcrumbs}>
             <Head title="Appearance settings" />
@@ -28,6 +40,25 @@ export default function Appearance() {
                     />
                     <AppearanceTabs />
                 </div>
+
+                <div className="space-y-6">
+                    <HeadingSmall
+                        title="Keyboard shortcuts"
+                        description="Triage tasks from the keyboard. Press ? on the tasks page to see them all"
+                    />
+                    <div className="flex items-center gap-3">
+                        <Checkbox
+                            id="keyboard_shortcuts"
+                            checked={auth.user.keyboard_shortcuts !== false}
+                            onCheckedChange={(checked) =>
+                                handleShortcutsChange(checked === true)
+                            }
+                        />
+                        <Label htmlFor="keyboard_shortcuts">
+                            Enable keyboard shortcuts
+                        </Label>
+                    </div>
+                </div>
             </SettingsLayout>
         </AppLayout>
     );
@@ -0,0 +1,91 @@
+import { Head, router, usePage } from '@inertiajs/react';
+
+import HeadingSmall from '@/components/heading-small';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { type BreadcrumbItem, type SharedData } from '@/types';
+
+import AppLayout from '@/layouts/app-layout';
+import SettingsLayout from '@/layouts/settings/layout';
+import { edit, update } from '@/routes/notification-preferences';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    {
+        title: 'Notification settings',
+        href: edit().url,
+    },
+];
+
+type EmailPreference = 'daily_digest' | 'email_reminders';
+
+export default function Notifications({ digestHour }: { digestHour: number }) {
+    const { auth } = usePage<SharedData>().props;
+
+    const handleChange = (preference: EmailPreference, checked: boolean) => {
+        router.patch(
+            update().url,
+            { [preference]: checked },
+            { preserveScroll: true },
+        );
+    };
+
+    const digestTime = new Date(2000, 0, 1, digestHour).toLocaleTimeString([], {
+        hour: 'numeric',
+    });
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Notification settings" />
+
+            <SettingsLayout>
+                <div className="space-y-6">
+                    <HeadingSmall
+                        title="Email notifications"
+                        description={`Choose which emails are sent to ${auth.user.email}`}
+                    />
+
+                    <div className="flex items-start gap-3">
+                        <Checkbox
+                            id="daily_digest"
+                            checked={auth.user.daily_digest === true}
+                            onCheckedChange={(checked) =>
+                                handleChange('daily_digest', checked === true)
+                            }
+                        />
+                        <div className="grid gap-1">
+                            <Label htmlFor="daily_digest">Daily digest</Label>
+                            <p className="text-sm text-muted-foreground">
+                                A summary of the tasks due today and overdue,
+                                sent at {digestTime} in your time zone on days
+                                when anything is due.
+                            </p>
+                        </div>
+                    </div>
+
+                    <div className="flex items-start gap-3">
+                        <Checkbox
+                            id="email_reminders"
+                            checked={auth.user.email_reminders === true}
+                            onCheckedChange={(checked) =>
+                                handleChange(
+                                    'email_reminders',
+                                    checked === true,
+                                )
+                            }
+                        />
+                        <div className="grid gap-1">
+                            <Label htmlFor="email_reminders">
+                                Reminder emails
+                            </Label>
+                            <p className="text-sm text-muted-foreground">
+                                An email whenever one of your task reminders
+                                goes off, as well as the notification in the
+                                app.
+                            </p>
+                        </div>
+                    </div>
+                </div>
+            </SettingsLayout>
+        </AppLayout>
+    );
+}
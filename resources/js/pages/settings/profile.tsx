@@ -10,6 +10,13 @@ import InputError from '@/components/input-error';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
 import AppLayout from '@/layouts/app-layout';
 import SettingsLayout from '@/layouts/settings/layout';
 import { edit } from '@/routes/profile';
@@ -24,11 +31,14 @@ const breadcrumbs: BreadcrumbItem[] = [
 export default function Profile({
     mustVerifyEmail,
     status,
+    timezones,
 }: {
     mustVerifyEmail: boolean;
     status?: string;
+    timezones: string[];
 }) {
     const { auth } = usePage<SharedData>().props;
+    const deviceTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
     return (
         <AppLayout breadcrumbs={breadcrumbs}>
@@ -116,6 +126,48 @@ export default function Profile({
                                         </div>
                                     )}
 
+                                <div className="grid gap-2">
+                                    <Label htmlFor="timezone">Time zone</Label>
+
+                                    <Select
+                                        name="timezone"
+                                        defaultValue={
+                                            auth.user.timezone ?? 'UTC'
+                                        }
+                                    >
+                                        <SelectTrigger
+                                            id="timezone"
+                                            className="mt-1 w-full"
+                                        >
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {timezones.map((timezone) => (
+                                                <SelectItem
+                                                    key={timezone}
+                                                    value={timezone}
+                                                >
+                                                    {timezone.replaceAll(
+                                                        '_',
+                                                        ' ',
+                                                    )}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+
+                                    <p className="text-sm text-muted-foreground">
+                                        Due times and reminders follow this time
+                                        zone. This device is set to{' '}
+                                        {deviceTimezone.replaceAll('_', ' ')}.
+                                    </p>
+
+                                    <InputError
+                                        className="mt-2"
+                                        message={errors.timezone}
+                                    />
+                                </div>
+
                                 <div className="flex items-center gap-4">
                                     <Button
                                         disabled={processing}
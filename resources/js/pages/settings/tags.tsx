@@ -0,0 +1,168 @@
+import TagController from '@/actions/App/Http/Controllers/Settings/TagController';
+import InputError from '@/components/input-error';
+import AppLayout from '@/layouts/app-layout';
+import SettingsLayout from '@/layouts/settings/layout';
+import { index } from '@/routes/tags';
+import { type BreadcrumbItem, type Tag } from '@/types';
+import { Form, Head } from '@inertiajs/react';
+
+import HeadingSmall from '@/components/heading-small';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Trash2 } from 'lucide-react';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    {
+        title: 'Tag settings',
+        href: index().url,
+    },
+];
+
+export default function Tags({ tags }: { tags: Tag[] }) {
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Tag settings" />
+
+            <SettingsLayout>
+                <div className="space-y-6">
+                    <HeadingSmall
+                        title="Create tag"
+                        description="Tags let you group tasks across lists"
+                    />
+
+                    <Form
+                        {...TagController.store.form()}
+                        options={{
+                            preserveScroll: true,
+                        }}
+                        resetOnSuccess={['name']}
+                        className="space-y-6"
+                    >
+                        {({ errors, processing }) => (
+                            <>
+                                <div className="flex items-end gap-4">
+                                    <div className="grid flex-1 gap-2">
+                                        <Label htmlFor="name">Name</Label>
+
+                                        <Input
+                                            id="name"
+                                            name="name"
+                                            className="mt-1 block w-full"
+                                            required
+                                            placeholder="e.g. urgent"
+                                        />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="color">Colour</Label>
+
+                                        <Input
+                                            id="color"
+                                            name="color"
+                                            type="color"
+                                            defaultValue="#64748b"
+                                            className="mt-1 h-9 w-14 p-1"
+                                        />
+                                    </div>
+
+                                    <Button disabled={processing}>Add</Button>
+                                </div>
+
+                                <InputError message={errors.name} />
+                                <InputError message={errors.color} />
+                            </>
+                        )}
+                    </Form>
+                </div>
+
+                <div className="space-y-6">
+                    <HeadingSmall
+                        title="Your tags"
+                        description="Rename, recolour or delete existing tags"
+                    />
+
+                    {tags.length === 0 && (
+                        <p className="text-sm text-muted-foreground">
+                            You haven't created any tags yet.
+                        </p>
+                    )}
+
+                    <ul className="space-y-3">
+                        {tags.map((tag) => (
+                            <li
+                                key={tag.id}
+                                className="flex items-center gap-3 rounded-lg border p-3"
+                            >
+                                <Form
+                                    {...TagController.update.form(tag.id)}
+                                    options={{
+                                        preserveScroll: true,
+                                    }}
+                                    className="flex flex-1 items-center gap-3"
+                                >
+                                    {({ errors, processing }) => (
+                                        <>
+                                            <Input
+                                                type="color"
+                                                name="color"
+                                                defaultValue={tag.color}
+                                                aria-label="Colour"
+                                                className="h-9 w-14 p-1"
+                                            />
+                                            <div className="flex-1">
+                                                <Input
+                                                    name="name"
+                                                    defaultValue={tag.name}
+                                                    aria-label="Name"
+                                                    required
+                                                />
+                                                <InputError
+                                                    className="mt-1"
+                                                    message={errors.name}
+                                                />
+                                            </div>
+                                            <span className="text-xs whitespace-nowrap text-muted-foreground">
+                                                {tag.tasks_count ?? 0} tasks
+                                            </span>
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                disabled={processing}
+                                            >
+                                                Save
+                                            </Button>
+                                        </>
+                                    )}
+                                </Form>
+
+                                <Form
+                                    {...TagController.destroy.form(tag.id)}
+                                    options={{
+                                        preserveScroll: true,
+                                    }}
+                                    onBefore={() =>
+                                        confirm(
+                                            `Delete the "${tag.name}" tag? It will be removed from every task.`,
+                                        )
+                                    }
+                                >
+                                    {({ processing }) => (
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            disabled={processing}
+                                            className="hover:bg-destructive/10 hover:text-destructive"
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    )}
+                                </Form>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            </SettingsLayout>
+        </AppLayout>
+    );
+}
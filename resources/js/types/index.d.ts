@@ -27,9 +27,30 @@ export interface SharedData {
     quote: { message: string; author: string };
     auth: Auth;
     sidebarOpen: boolean;
+    views: SavedTaskView[];
+    notifications: ReminderNotification[];
     [key: string]: unknown;
 }
 
+export interface ReminderNotification {
+    id: string;
+    data: {
+        task_id: number;
+        title: string;
+        due_at: string | null;
+        minutes_before: number;
+    };
+    created_at: string;
+}
+
+export interface SavedTaskView {
+    id: number | null;
+    key: string;
+    name: string;
+    href: string;
+    count: number;
+}
+
 export interface User {
     id: number;
     name: string;
@@ -37,7 +58,78 @@ export interface User {
     avatar?: string;
     email_verified_at: string | null;
     two_factor_enabled?: boolean;
+    keyboard_shortcuts?: boolean;
+    timezone?: string;
+    daily_digest?: boolean;
+    email_reminders?: boolean;
     created_at: string;
     updated_at: string;
     [key: string]: unknown; // This allows for additional properties...
 }
+
+export type TaskStatus = 'todo' | 'in_progress' | 'done';
+
+export type TaskPriority = 'none' | 'low' | 'medium' | 'high' | 'urgent';
+
+export type DueWindow = 'overdue' | 'today' | 'week' | 'upcoming' | 'none';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface Recurrence {
+    frequency: RecurrenceFrequency;
+    interval?: number;
+    weekdays?: number[];
+    month_day?: number;
+}
+
+export interface TaskList {
+    id: number;
+    title: string;
+    description?: string | null;
+}
+
+export interface Tag {
+    id: number;
+    name: string;
+    color: string;
+    tasks_count?: number;
+}
+
+export interface ChecklistItem {
+    id: number;
+    task_id: number;
+    title: string;
+    is_completed: boolean;
+    position: number;
+}
+
+export interface Task {
+    id: number;
+    title: string;
+    description?: string;
+    due_date?: string;
+    due_time?: string | null;
+    recurrence?: Recurrence | null;
+    series_id?: string | null;
+    completed_occurrences_count?: number;
+    list_id: number;
+    list: {
+        id: number;
+        title: string;
+    };
+    is_completed: boolean;
+    auto_complete: boolean;
+    status: TaskStatus;
+    priority: TaskPriority;
+    checklist_items: ChecklistItem[];
+    tags: Tag[];
+    reminders?: Reminder[];
+}
+
+export interface Reminder {
+    id: number;
+    task_id: number;
+    minutes_before: number;
+    remind_at: string | null;
+    sent_at: string | null;
+}
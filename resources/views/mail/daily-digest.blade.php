@@ -0,0 +1,28 @@
+<x-mail::message>
+# Good morning, {{ $name }}
+
+@if ($overdue->isNotEmpty())
+## Overdue
+
+@foreach ($overdue as $task)
+- **{{ $task->title }}** in {{ $task->list->title }}, due {{ $task->due_date->format('l, F j') }}
+@endforeach
+@endif
+
+@if ($dueToday->isNotEmpty())
+## Due today
+
+@foreach ($dueToday as $task)
+- **{{ $task->title }}** in {{ $task->list->title }}{{ $task->due_time ? ', at '.date('g:i A', strtotime($task->due_time)) : '' }}
+@endforeach
+@endif
+
+<x-mail::button :url="$url">
+View your tasks
+</x-mail::button>
+
+You can stop this email in your [notification settings]({{ $settingsUrl }}).
+
+Thanks,<br>
+{{ config('app.name') }}
+</x-mail::message>
@@ -0,0 +1,20 @@
+<x-mail::message>
+# {{ $task->title }}
+
+@if ($due)
+This task is due {{ $due }}.
+@else
+This task has no due date any more.
+@endif
+
+**List:** {{ $task->list->title }}
+
+<x-mail::button :url="$url">
+Open task
+</x-mail::button>
+
+You can stop these emails in your [notification settings]({{ $settingsUrl }}).
+
+Thanks,<br>
+{{ config('app.name') }}
+</x-mail::message>
@@ -1,8 +1,20 @@
 <?php
 
+use App\Jobs\SendDueReminders;
 use Illuminate\Foundation\Inspiring;
 use Illuminate\Support\Facades\Artisan;
+use Illuminate\Support\Facades\Schedule;
 
 Artisan::command('inspire', function () {
     $this->comment(Inspiring::quote());
 })->purpose('Display an inspiring quote');
+
+Schedule::command('model:prune')->daily();
+
+// Queued on the database connection, so reminders go out once a worker
+// picks the job up from the jobs table.
+Schedule::job(new SendDueReminders)->everyMinute();
+
+// Hourly, so each user's digest goes out at the digest hour in their own
+// time zone.
+Schedule::command('tasks:send-digests')->hourly();
@@ -1,7 +1,13 @@
 <?php
 
+use App\Http\Controllers\CalendarController;
+use App\Http\Controllers\ChecklistItemController;
+use App\Http\Controllers\DashboardController;
 use App\Http\Controllers\ListController;
+use App\Http\Controllers\NotificationController;
+use App\Http\Controllers\SavedViewController;
 use App\Http\Controllers\TaskController;
+use App\Http\Controllers\TrashController;
 use Illuminate\Support\Facades\Route;
 use Inertia\Inertia;
 use Laravel\Fortify\Features;
@@ -14,11 +20,34 @@
 
 Route::middleware(['auth', 'verified'])->group(function () {
     Route::resource('lists', ListController::class);
+    Route::post('lists/{list}/tasks', [TaskController::class, 'store'])->name('lists.tasks.store');
+
+    Route::patch('tasks/batch', [TaskController::class, 'batch'])->name('tasks.batch');
+    Route::post('tasks/undo', [TaskController::class, 'undo'])->name('tasks.undo');
+    Route::get('tasks/parse', [TaskController::class, 'parse'])->name('tasks.parse');
+    Route::patch('tasks/view', [TaskController::class, 'updateView'])->name('tasks.view');
+    Route::patch('tasks/{task}/reorder', [TaskController::class, 'reorder'])->name('tasks.reorder');
+    Route::patch('tasks/{task}/move', [TaskController::class, 'move'])->name('tasks.move');
     Route::resource('tasks', TaskController::class);
+    Route::resource('tasks.checklist-items', ChecklistItemController::class)
+        ->only(['store', 'update', 'destroy'])
+        ->scoped();
+
+    Route::get('trash', [TrashController::class, 'index'])->name('trash.index');
+    Route::delete('trash', [TrashController::class, 'empty'])->name('trash.empty');
+    Route::patch('trash/tasks/{task}', [TrashController::class, 'restoreTask'])->name('trash.tasks.restore')->withTrashed();
+    Route::delete('trash/tasks/{task}', [TrashController::class, 'purgeTask'])->name('trash.tasks.purge')->withTrashed();
+    Route::patch('trash/lists/{list}', [TrashController::class, 'restoreList'])->name('trash.lists.restore')->withTrashed();
+    Route::delete('trash/lists/{list}', [TrashController::class, 'purgeList'])->name('trash.lists.purge')->withTrashed();
+
+    Route::get('calendar', [CalendarController::class, 'index'])->name('calendar.index');
+
+    Route::resource('views', SavedViewController::class)->only(['store', 'destroy']);
+
+    Route::post('notifications/read', [NotificationController::class, 'read'])->name('notifications.read');
+    Route::get('notifications/{notification}', [NotificationController::class, 'show'])->name('notifications.show');
 
-    Route::get('dashboard', function () {
-        return Inertia::render('dashboard');
-    })->name('dashboard');
+    Route::get('dashboard', [DashboardController::class, 'index'])->name('dashboard');
 });
 
 require __DIR__.'/settings.php';
@@ -0,0 +1,88 @@
+<?php
+
+use App\Models\User;
+use Illuminate\Support\Carbon;
+
+test('guests are redirected to the login page', function () {
+    $this->get(route('calendar.index'))->assertRedirect(route('login'));
+});
+
+test('the month view shows only the user\'s tasks due in the visible weeks', function () {
+    $user = User::factory()->create();
+
+    $inside = taskOwnedBy($user, ['due_date' => '2026-10-15']);
+    $leadingWeek = taskOwnedBy($user, ['due_date' => '2026-09-28']);
+    taskOwnedBy($user, ['due_date' => '2026-12-01']);
+    taskOwnedBy($user, ['due_date' => null]);
+    taskOwnedBy(User::factory()->create(), ['due_date' => '2026-10-15']);
+
+    $this->actingAs($user)
+        ->get(route('calendar.index', ['date' => '2026-10-19']))
+        ->assertInertia(fn ($page) => $page
+            ->component('Calendar/Index')
+            ->where('view', 'month')
+            ->where('range.start', '2026-09-27')
+            ->where('range.end', '2026-10-31')
+            ->where('navigation.previous', '2026-09-19')
+            ->where('navigation.next', '2026-11-19')
+            ->has('tasks', 2)
+            ->where('tasks.0.id', $leadingWeek->id)
+            ->where('tasks.1.id', $inside->id)
+        );
+});
+
+test('the week and agenda views cover their own ranges', function () {
+    $user = User::factory()->create();
+
+    $this->actingAs($user)
+        ->get(route('calendar.index', ['view' => 'week', 'date' => '2026-10-21']))
+        ->assertInertia(fn ($page) => $page
+            ->where('range.start', '2026-10-18')
+            ->where('range.end', '2026-10-24')
+        );
+
+    $this->actingAs($user)
+        ->get(route('calendar.index', ['view' => 'agenda', 'date' => '2026-10-21']))
+        ->assertInertia(fn ($page) => $page
+            ->where('range.start', '2026-10-21')
+            ->where('range.end', '2026-11-19')
+        );
+});
+
+test('the calendar defaults to the current month', function () {
+    Carbon::setTestNow('2026-10-19 12:00:00');
+
+    $this->actingAs(User::factory()->create())
+        ->get(route('calendar.index'))
+        ->assertInertia(fn ($page) => $page
+            ->where('date', '2026-10-19')
+            ->where('today', '2026-10-19')
+        );
+});
+
+test('the calendar view must be known', function () {
+    $this->actingAs(User::factory()->create())
+        ->get(route('calendar.index', ['view' => 'year']))
+        ->assertSessionHasErrors('view');
+});
+
+test('dropping a task on another day reschedules it', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user, ['due_date' => '2026-10-15']);
+
+    $this->actingAs($user)
+        ->patch(route('tasks.move', $task), ['due_date' => '2026-10-22'])
+        ->assertSessionHasNoErrors();
+
+    expect($task->fresh()->due_date->toDateString())->toBe('2026-10-22');
+});
+
+test('users cannot reschedule tasks they do not own', function () {
+    $task = taskOwnedBy(User::factory()->create(), ['due_date' => '2026-10-15']);
+
+    $this->actingAs(User::factory()->create())
+        ->patch(route('tasks.move', $task), ['due_date' => '2026-10-22'])
+        ->assertForbidden();
+
+    expect($task->fresh()->due_date->toDateString())->toBe('2026-10-15');
+});
@@ -0,0 +1,37 @@
+<?php
+
+use App\Models\Task;
+use App\Models\TaskList;
+use App\Models\User;
+
+test('the command palette data is left out of normal page loads', function () {
+    $user = User::factory()->create();
+
+    $this->actingAs($user)
+        ->get(route('dashboard'))
+        ->assertInertia(fn ($page) => $page->missing('palette'));
+});
+
+test('the command palette loads the user\'s lists and tasks on request', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create(['title' => 'Work']);
+    $task = Task::factory()->for($list, 'list')->create(['title' => 'Write report']);
+    Task::factory()->for(TaskList::factory(), 'list')->create();
+
+    $version = $this->actingAs($user)->get(route('dashboard'))->viewData('page')['version'];
+
+    $this->actingAs($user)
+        ->withHeaders([
+            'X-Inertia' => 'true',
+            'X-Inertia-Version' => $version,
+            'X-Inertia-Partial-Component' => 'dashboard',
+            'X-Inertia-Partial-Data' => 'palette',
+        ])
+        ->get(route('dashboard'))
+        ->assertOk()
+        ->assertJsonPath('props.palette.lists.0.title', 'Work')
+        ->assertJsonCount(1, 'props.palette.tasks')
+        ->assertJsonPath('props.palette.tasks.0.id', $task->id)
+        ->assertJsonPath('props.palette.tasks.0.list.title', 'Work')
+        ->assertJsonMissingPath('props.dueToday');
+});
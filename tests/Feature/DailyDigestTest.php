@@ -0,0 +1,113 @@
+<?php
+
+use App\Models\User;
+use App\Notifications\DailyDigest;
+use Illuminate\Support\Carbon;
+use Illuminate\Support\Facades\Mail;
+use Illuminate\Support\Facades\Notification;
+
+test('the digest lists today\'s and overdue tasks at seven in the morning', function () {
+    Notification::fake();
+    Carbon::setTestNow('2026-10-21 07:05:00');
+
+    $user = User::factory()->create(['daily_digest' => true]);
+    $today = taskOwnedBy($user, ['title' => 'Pay rent', 'due_date' => '2026-10-21']);
+    $overdue = taskOwnedBy($user, ['title' => 'Call the bank', 'due_date' => '2026-10-19']);
+    taskOwnedBy($user, ['due_date' => '2026-10-22']);
+    taskOwnedBy($user, ['due_date' => '2026-10-20', 'is_completed' => true]);
+    taskOwnedBy($user);
+
+    $this->artisan('tasks:send-digests')
+        ->expectsOutput('Sent 1 digest.')
+        ->assertSuccessful();
+
+    Notification::assertSentTo($user, DailyDigest::class, function (DailyDigest $digest) use ($today, $overdue) {
+        return $digest->dueToday->modelKeys() === [$today->id]
+            && $digest->overdue->modelKeys() === [$overdue->id];
+    });
+
+    expect($user->fresh()->digest_sent_at)->not->toBeNull();
+});
+
+test('the digest follows each user\'s time zone', function () {
+    Notification::fake();
+    Carbon::setTestNow('2026-10-20 22:00:00');
+
+    $tokyo = User::factory()->create(['daily_digest' => true, 'timezone' => 'Asia/Tokyo']);
+    $london = User::factory()->create(['daily_digest' => true, 'timezone' => 'Europe/London']);
+    taskOwnedBy($tokyo, ['due_date' => '2026-10-21']);
+    taskOwnedBy($london, ['due_date' => '2026-10-20']);
+
+    $this->artisan('tasks:send-digests')->assertSuccessful();
+
+    Notification::assertSentTo($tokyo, DailyDigest::class, fn (DailyDigest $digest) => $digest->dueToday->count() === 1);
+    Notification::assertNotSentTo($london, DailyDigest::class);
+});
+
+test('the digest is sent at most once a day', function () {
+    Notification::fake();
+    Carbon::setTestNow('2026-10-21 07:00:00');
+
+    $user = User::factory()->create(['daily_digest' => true]);
+    taskOwnedBy($user, ['due_date' => '2026-10-21']);
+
+    $this->artisan('tasks:send-digests')->assertSuccessful();
+    $this->artisan('tasks:send-digests')->expectsOutput('No digests sent.')->assertSuccessful();
+
+    Notification::assertSentToTimes($user, DailyDigest::class, 1);
+});
+
+test('no digest is sent without opting in, without anything due or outside the hour', function () {
+    Notification::fake();
+    Carbon::setTestNow('2026-10-21 07:00:00');
+
+    taskOwnedBy(User::factory()->create(), ['due_date' => '2026-10-21']);
+    taskOwnedBy(User::factory()->create(['daily_digest' => true]), ['due_date' => '2026-10-25']);
+
+    $this->artisan('tasks:send-digests')->assertSuccessful();
+
+    Carbon::setTestNow('2026-10-21 08:00:00');
+    taskOwnedBy(User::factory()->create(['daily_digest' => true]), ['due_date' => '2026-10-21']);
+
+    $this->artisan('tasks:send-digests')->assertSuccessful();
+
+    Notification::assertNothingSent();
+});
+
+test('the force option sends the digest straight away', function () {
+    Notification::fake();
+    Carbon::setTestNow('2026-10-21 15:00:00');
+
+    $user = User::factory()->create(['daily_digest' => true]);
+    taskOwnedBy($user, ['due_date' => '2026-10-21']);
+
+    $this->artisan('tasks:send-digests', ['--force' => true])->assertSuccessful();
+
+    Notification::assertSentTo($user, DailyDigest::class);
+});
+
+test('the digest email is rendered from the markdown template', function () {
+    Carbon::setTestNow('2026-10-21 07:00:00');
+
+    $user = User::factory()->create(['name' => 'Ada', 'daily_digest' => true]);
+    taskOwnedBy($user, ['title' => 'Pay rent', 'due_date' => '2026-10-21', 'due_time' => '15:00']);
+    taskOwnedBy($user, ['title' => 'Call the bank', 'due_date' => '2026-10-19']);
+
+    $this->artisan('tasks:send-digests')->assertSuccessful();
+
+    $messages = Mail::getSymfonyTransport()->messages();
+
+    expect($messages)->toHaveCount(1);
+
+    $email = $messages->first()->getOriginalMessage();
+
+    expect($email->getSubject())->toBe('2 tasks need you today')
+        ->and($email->getTo()[0]->getAddress())->toBe($user->email)
+        ->and($email->getHtmlBody())
+        ->toContain('Good morning, Ada')
+        ->toContain('Pay rent')
+        ->toContain('at 3:00 PM')
+        ->toContain('Call the bank')
+        ->toContain('due Monday, October 19')
+        ->toContain(route('notification-preferences.edit'));
+});
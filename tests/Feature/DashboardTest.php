@@ -1,6 +1,9 @@
 <?php
 
+use App\Models\Task;
+use App\Models\TaskList;
 use App\Models\User;
+use Illuminate\Support\Carbon;
 
 test('guests are redirected to the login page', function () {
     $this->get(route('dashboard'))->assertRedirect(route('login'));
@@ -10,4 +13,51 @@
     $this->actingAs($user = User::factory()->create());
 
     $this->get(route('dashboard'))->assertOk();
-});
\ No newline at end of file
+});
+
+test('the dashboard summarises the user\'s tasks', function () {
+    Carbon::setTestNow('2026-10-21 12:00:00');
+
+    $user = User::factory()->create();
+    $work = TaskList::factory()->for($user)->create(['title' => 'Work']);
+    $home = TaskList::factory()->for($user)->create(['title' => 'Home']);
+
+    $dueToday = Task::factory()->for($work, 'list')->create(['due_date' => '2026-10-21']);
+    Task::factory()->for($work, 'list')->create(['due_date' => '2026-10-20']);
+    Task::factory()->for($work, 'list')->completed()->create(['due_date' => '2026-10-21']);
+    Task::factory()->for($home, 'list')->completed()->create(['completed_at' => '2026-10-18 09:00:00']);
+    Task::factory()->for($home, 'list')->completed()->create(['completed_at' => '2026-10-10 09:00:00']);
+    taskOwnedBy(User::factory()->create(), ['due_date' => '2026-10-19']);
+
+    $this->actingAs($user)
+        ->get(route('dashboard'))
+        ->assertInertia(fn ($page) => $page
+            ->component('dashboard')
+            ->has('dueToday', 1)
+            ->where('dueToday.0.id', $dueToday->id)
+            ->where('stats.due_today', 1)
+            ->where('stats.overdue', 1)
+            ->where('stats.completed_this_week', 2)
+            ->where('lists.0.title', 'Home')
+            ->where('lists.0.tasks_count', 2)
+            ->where('lists.0.completed_tasks_count', 2)
+            ->where('lists.1.tasks_count', 3)
+            ->where('lists.1.completed_tasks_count', 1)
+            ->has('trend', 30)
+            ->where('trend.29', ['date' => '2026-10-21', 'count' => 1])
+            ->where('trend.26', ['date' => '2026-10-18', 'count' => 1])
+            ->where('trend.18', ['date' => '2026-10-10', 'count' => 1])
+        );
+});
+
+test('completing a task records when it was completed', function () {
+    Carbon::setTestNow('2026-10-21 12:00:00');
+
+    $task = taskOwnedBy(User::factory()->create());
+
+    $task->update(['is_completed' => true]);
+    expect($task->fresh()->completed_at->toDateTimeString())->toBe('2026-10-21 12:00:00');
+
+    $task->update(['is_completed' => false]);
+    expect($task->fresh()->completed_at)->toBeNull();
+});
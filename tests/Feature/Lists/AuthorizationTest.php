@@ -0,0 +1,67 @@
+<?php
+
+use App\Models\TaskList;
+use App\Models\User;
+
+test('guests are redirected to the login page', function () {
+    $this->get(route('lists.index'))->assertRedirect(route('login'));
+});
+
+test('the list index only contains the current user\'s lists', function () {
+    $user = User::factory()->create();
+    $own = TaskList::factory()->for($user)->create();
+    TaskList::factory()->create();
+
+    $this->actingAs($user)
+        ->get(route('lists.index'))
+        ->assertOk()
+        ->assertInertia(fn ($page) => $page
+            ->component('Lists/Index')
+            ->has('lists', 1)
+            ->where('lists.0.id', $own->id)
+        );
+});
+
+test('users cannot view another user\'s list', function () {
+    $list = TaskList::factory()->create();
+
+    $this->actingAs(User::factory()->create())
+        ->get(route('lists.show', $list))
+        ->assertForbidden();
+});
+
+test('users cannot update another user\'s list', function () {
+    $list = TaskList::factory()->create(['title' => 'Original']);
+
+    $this->actingAs(User::factory()->create())
+        ->put(route('lists.update', $list), [
+            'title' => 'Hijacked',
+        ])
+        ->assertForbidden();
+
+    expect($list->fresh()->title)->toBe('Original');
+});
+
+test('users can update their own list', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+
+    $this->actingAs($user)
+        ->put(route('lists.update', $list), [
+            'title' => 'Renamed',
+        ])
+        ->assertSessionHasNoErrors()
+        ->assertRedirect(route('lists.index'));
+
+    expect($list->fresh()->title)->toBe('Renamed');
+});
+
+test('users cannot delete another user\'s list', function () {
+    $list = TaskList::factory()->create();
+
+    $this->actingAs(User::factory()->create())
+        ->delete(route('lists.destroy', $list))
+        ->assertForbidden();
+
+    expect($list->fresh())->not->toBeNull();
+});
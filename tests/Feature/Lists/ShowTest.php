@@ -0,0 +1,75 @@
+<?php
+
+use App\Models\Task;
+use App\Models\TaskList;
+use App\Models\User;
+use Illuminate\Support\Carbon;
+
+test('the list page shows the list\'s tasks and progress', function () {
+    Carbon::setTestNow('2026-10-21 12:00:00');
+
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create(['description' => 'Chores around the house']);
+
+    Task::factory()->for($list, 'list')->create(['due_date' => '2026-10-25']);
+    Task::factory()->for($list, 'list')->create(['due_date' => '2026-10-20']);
+    Task::factory()->for($list, 'list')->completed()->create(['due_date' => '2026-10-01']);
+    taskOwnedBy($user);
+
+    $this->actingAs($user)
+        ->get(route('lists.show', $list))
+        ->assertOk()
+        ->assertInertia(fn ($page) => $page
+            ->component('Lists/Show')
+            ->where('list.id', $list->id)
+            ->where('list.description', 'Chores around the house')
+            ->has('tasks', 3)
+            ->where('tasks.0.is_completed', true)
+            ->where('stats.total', 3)
+            ->where('stats.completed', 1)
+            ->where('stats.overdue', 1)
+            ->where('today', '2026-10-21')
+        );
+});
+
+test('the list page works out today in the user\'s time zone', function () {
+    // Still the 20th in Honolulu at 09:00 UTC on the 21st.
+    Carbon::setTestNow('2026-10-21 09:00:00');
+
+    $user = User::factory()->create(['timezone' => 'Pacific/Honolulu']);
+    $list = TaskList::factory()->for($user)->create();
+    Task::factory()->for($list, 'list')->create(['due_date' => '2026-10-20']);
+
+    $this->actingAs($user)
+        ->get(route('lists.show', $list))
+        ->assertInertia(fn ($page) => $page
+            ->where('today', '2026-10-20')
+            ->where('stats.overdue', 0)
+        );
+});
+
+test('tasks added from the list page are scoped to the list', function () {
+    $user = User::factory()->create();
+    [$list, $other] = TaskList::factory()->for($user)->count(2)->create();
+
+    $this->actingAs($user)
+        ->post(route('lists.tasks.store', $list), [
+            'title' => 'Mow the lawn',
+            'list_id' => $other->id,
+        ])
+        ->assertSessionHasNoErrors()
+        ->assertRedirect(route('lists.show', $list));
+
+    expect($list->tasks()->where('title', 'Mow the lawn')->exists())->toBeTrue()
+        ->and($other->tasks()->count())->toBe(0);
+});
+
+test('users cannot add tasks to another user\'s list', function () {
+    $list = TaskList::factory()->create();
+
+    $this->actingAs(User::factory()->create())
+        ->post(route('lists.tasks.store', $list), ['title' => 'Sneaky task'])
+        ->assertForbidden();
+
+    expect(Task::count())->toBe(0);
+});
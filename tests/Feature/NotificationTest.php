@@ -0,0 +1,51 @@
+<?php
+
+use App\Models\User;
+use App\Notifications\TaskReminder;
+
+test('unread reminders are shared with every page', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user, ['due_date' => '2026-10-21']);
+    $user->notifyNow(new TaskReminder($task, 60));
+
+    $this->actingAs($user)
+        ->get(route('dashboard'))
+        ->assertInertia(fn ($page) => $page
+            ->has('notifications', 1)
+            ->where('notifications.0.data.task_id', $task->id)
+            ->where('notifications.0.data.minutes_before', 60));
+});
+
+test('opening a notification marks it read and shows its task', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user);
+    $user->notifyNow(new TaskReminder($task, 0));
+    $notification = $user->notifications()->first();
+
+    $this->actingAs($user)
+        ->get(route('notifications.show', $notification->id))
+        ->assertRedirect(route('tasks.show', $task));
+
+    expect($notification->fresh()->read_at)->not->toBeNull();
+});
+
+test('users cannot open each other\'s notifications', function () {
+    $owner = User::factory()->create();
+    $owner->notifyNow(new TaskReminder(taskOwnedBy($owner), 0));
+
+    $this->actingAs(User::factory()->create())
+        ->get(route('notifications.show', $owner->notifications()->first()->id))
+        ->assertNotFound();
+});
+
+test('all notifications can be marked as read', function () {
+    $user = User::factory()->create();
+    $user->notifyNow(new TaskReminder(taskOwnedBy($user), 0));
+    $user->notifyNow(new TaskReminder(taskOwnedBy($user), 10));
+
+    $this->actingAs($user)
+        ->post(route('notifications.read'))
+        ->assertRedirect();
+
+    expect($user->unreadNotifications()->count())->toBe(0);
+});
@@ -0,0 +1,100 @@
+<?php
+
+use App\Models\SavedView;
+use App\Models\Task;
+use App\Models\TaskList;
+use App\Models\User;
+use Illuminate\Support\Carbon;
+
+beforeEach(function () {
+    Carbon::setTestNow('2026-10-21 09:00:00');
+});
+
+test('the smart views are pinned with live counts', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+    Task::factory()->for($list, 'list')->create(['due_date' => '2026-10-21']);
+    Task::factory()->for($list, 'list')->create(['due_date' => '2026-10-21', 'is_completed' => true]);
+    Task::factory()->for($list, 'list')->create(['due_date' => '2026-10-25']);
+    Task::factory()->for($list, 'list')->count(2)->create(['due_date' => '2026-10-01']);
+
+    $this->actingAs($user)
+        ->get(route('dashboard'))
+        ->assertInertia(fn ($page) => $page
+            ->has('views', 4)
+            ->where('views.0.name', 'Today')
+            ->where('views.0.count', 1)
+            ->where('views.0.href', '/tasks?filter=pending&due=today')
+            ->where('views.1.name', 'Upcoming')
+            ->where('views.1.count', 1)
+            ->where('views.2.name', 'Overdue')
+            ->where('views.2.count', 2)
+            ->where('views.3.name', 'Completed')
+            ->where('views.3.count', 1)
+        );
+});
+
+test('the current filters can be saved as a view', function () {
+    $user = User::factory()->create();
+    $work = TaskList::factory()->for($user)->create();
+    Task::factory()->for($work, 'list')->count(2)->create(['priority' => 'high']);
+    Task::factory()->for(TaskList::factory()->for($user), 'list')->create(['priority' => 'high']);
+
+    $this->actingAs($user)
+        ->post(route('views.store'), [
+            'name' => 'Urgent work',
+            'filters' => [
+                'search' => null,
+                'filter' => 'all',
+                'priority' => 'high',
+                'lists' => [$work->id],
+                'sort' => 'manual',
+                'direction' => 'asc',
+            ],
+        ])
+        ->assertSessionHasNoErrors()
+        ->assertSessionHas('success', 'View saved.');
+
+    $view = SavedView::sole();
+
+    expect($view->user_id)->toBe($user->id)
+        ->and($view->filters)->toBe(['priority' => 'high', 'lists' => [$work->id]]);
+
+    $this->actingAs($user)
+        ->get(route('dashboard'))
+        ->assertInertia(fn ($page) => $page
+            ->where('views.4.id', $view->id)
+            ->where('views.4.name', 'Urgent work')
+            ->where('views.4.count', 2)
+        );
+});
+
+test('saved views must have a name and valid filters', function () {
+    $user = User::factory()->create();
+
+    $this->actingAs($user)
+        ->post(route('views.store'), ['filters' => ['sort' => 'sideways']])
+        ->assertSessionHasErrors(['name', 'filters.sort']);
+
+    expect(SavedView::count())->toBe(0);
+});
+
+test('users can only delete their own saved views', function () {
+    $owner = User::factory()->create();
+    $view = $owner->savedViews()->create(['name' => 'Mine', 'filters' => []]);
+
+    $this->actingAs(User::factory()->create())
+        ->delete(route('views.destroy', $view))
+        ->assertForbidden();
+
+    $this->actingAs($owner)
+        ->delete(route('views.destroy', $view))
+        ->assertSessionHas('success', 'View deleted.');
+
+    $this->assertModelMissing($view);
+});
+
+test('guests are not shown any views', function () {
+    $this->get(route('home'))
+        ->assertInertia(fn ($page) => $page->where('views', []));
+});
@@ -0,0 +1,40 @@
+<?php
+
+use App\Models\User;
+
+test('appearance page is displayed', function () {
+    $user = User::factory()->create();
+
+    $this->actingAs($user)
+        ->get(route('appearance.edit'))
+        ->assertOk()
+        ->assertInertia(fn ($page) => $page
+            ->component('settings/appearance')
+            ->where('auth.user.keyboard_shortcuts', true)
+        );
+});
+
+test('keyboard shortcuts can be turned off and on again', function () {
+    $user = User::factory()->create();
+
+    $this->actingAs($user)
+        ->patch(route('appearance.update'), ['keyboard_shortcuts' => false])
+        ->assertSessionHasNoErrors()
+        ->assertRedirect(route('appearance.edit'));
+
+    expect($user->refresh()->keyboard_shortcuts)->toBeFalse();
+
+    $this->actingAs($user)
+        ->patch(route('appearance.update'), ['keyboard_shortcuts' => true])
+        ->assertSessionHasNoErrors();
+
+    expect($user->refresh()->keyboard_shortcuts)->toBeTrue();
+});
+
+test('the keyboard shortcuts preference must be a boolean', function () {
+    $user = User::factory()->create();
+
+    $this->actingAs($user)
+        ->patch(route('appearance.update'), ['keyboard_shortcuts' => 'sometimes'])
+        ->assertSessionHasErrors('keyboard_shortcuts');
+});
@@ -0,0 +1,46 @@
+<?php
+
+use App\Models\User;
+
+test('notification settings page is displayed', function () {
+    $user = User::factory()->create();
+
+    $this->actingAs($user)
+        ->get(route('notification-preferences.edit'))
+        ->assertOk()
+        ->assertInertia(fn ($page) => $page
+            ->component('settings/notifications')
+            ->where('digestHour', User::DIGEST_HOUR)
+            ->where('auth.user.daily_digest', false)
+            ->where('auth.user.email_reminders', false)
+        );
+});
+
+test('each email can be switched on and off on its own', function () {
+    $user = User::factory()->create();
+
+    $this->actingAs($user)
+        ->patch(route('notification-preferences.update'), ['daily_digest' => true])
+        ->assertSessionHasNoErrors()
+        ->assertRedirect(route('notification-preferences.edit'));
+
+    expect($user->refresh())
+        ->daily_digest->toBeTrue()
+        ->email_reminders->toBeFalse();
+
+    $this->actingAs($user)
+        ->patch(route('notification-preferences.update'), ['email_reminders' => true])
+        ->assertSessionHasNoErrors();
+
+    expect($user->refresh())
+        ->daily_digest->toBeTrue()
+        ->email_reminders->toBeTrue();
+});
+
+test('email preferences must be booleans', function () {
+    $user = User::factory()->create();
+
+    $this->actingAs($user)
+        ->patch(route('notification-preferences.update'), ['daily_digest' => 'often'])
+        ->assertSessionHasErrors('daily_digest');
+});
@@ -33,6 +33,32 @@
     expect($user->email_verified_at)->toBeNull();
 });
 
+test('the time zone can be updated', function () {
+    $user = User::factory()->create();
+
+    $this->actingAs($user)
+        ->patch(route('profile.update'), [
+            'name' => $user->name,
+            'email' => $user->email,
+            'timezone' => 'Australia/Sydney',
+        ])
+        ->assertSessionHasNoErrors();
+
+    expect($user->refresh()->timezone)->toBe('Australia/Sydney');
+});
+
+test('the time zone must be a real one', function () {
+    $user = User::factory()->create();
+
+    $this->actingAs($user)
+        ->patch(route('profile.update'), [
+            'name' => $user->name,
+            'email' => $user->email,
+            'timezone' => 'Mars/Olympus_Mons',
+        ])
+        ->assertSessionHasErrors('timezone');
+});
+
 test('email verification status is unchanged when the email address is unchanged', function () {
     $user = User::factory()->create();
 
@@ -0,0 +1,85 @@
+<?php
+
+use App\Models\Tag;
+use App\Models\User;
+
+test('tag settings page is displayed', function () {
+    $user = User::factory()->create();
+    Tag::factory()->for($user)->create(['name' => 'home']);
+
+    $this->actingAs($user)
+        ->get(route('tags.index'))
+        ->assertOk()
+        ->assertInertia(fn ($page) => $page
+            ->component('settings/tags')
+            ->has('tags', 1)
+            ->where('tags.0.name', 'home')
+        );
+});
+
+test('tags can be created', function () {
+    $user = User::factory()->create();
+
+    $this->actingAs($user)
+        ->post(route('tags.store'), ['name' => 'urgent', 'color' => '#ef4444'])
+        ->assertSessionHasNoErrors()
+        ->assertRedirect(route('tags.index'));
+
+    expect($user->tags()->sole())
+        ->name->toBe('urgent')
+        ->color->toBe('#ef4444');
+});
+
+test('tag names are unique per user', function () {
+    $user = User::factory()->create();
+    Tag::factory()->for($user)->create(['name' => 'urgent']);
+    Tag::factory()->create(['name' => 'home']);
+
+    $this->actingAs($user)
+        ->post(route('tags.store'), ['name' => 'urgent', 'color' => '#ef4444'])
+        ->assertSessionHasErrors('name');
+
+    $this->actingAs($user)
+        ->post(route('tags.store'), ['name' => 'home', 'color' => '#ef4444'])
+        ->assertSessionHasNoErrors();
+});
+
+test('tag colours must be hex codes', function () {
+    $this->actingAs(User::factory()->create())
+        ->post(route('tags.store'), ['name' => 'urgent', 'color' => 'red'])
+        ->assertSessionHasErrors('color');
+});
+
+test('tags can be updated', function () {
+    $user = User::factory()->create();
+    $tag = Tag::factory()->for($user)->create();
+
+    $this->actingAs($user)
+        ->patch(route('tags.update', $tag), ['name' => 'errands', 'color' => '#22c55e'])
+        ->assertSessionHasNoErrors();
+
+    expect($tag->fresh()->name)->toBe('errands');
+});
+
+test('tags can be deleted', function () {
+    $user = User::factory()->create();
+    $tag = Tag::factory()->for($user)->create();
+
+    $this->actingAs($user)
+        ->delete(route('tags.destroy', $tag))
+        ->assertRedirect(route('tags.index'));
+
+    expect($tag->fresh())->toBeNull();
+});
+
+test('users cannot change another user\'s tags', function () {
+    $tag = Tag::factory()->create();
+
+    $this->actingAs(User::factory()->create())
+        ->patch(route('tags.update', $tag), ['name' => 'mine', 'color' => '#000000'])
+        ->assertForbidden();
+
+    $this->actingAs(User::factory()->create())
+        ->delete(route('tags.destroy', $tag))
+        ->assertForbidden();
+});
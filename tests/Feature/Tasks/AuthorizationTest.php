@@ -0,0 +1,112 @@
+<?php
+
+use App\Models\Task;
+use App\Models\TaskList;
+use App\Models\User;
+
+test('guests are redirected to the login page', function () {
+    $this->get(route('tasks.index'))->assertRedirect(route('login'));
+});
+
+test('the task index only contains the current user\'s tasks', function () {
+    $user = User::factory()->create();
+    $own = Task::factory()->for(TaskList::factory()->for($user), 'list')->create();
+    Task::factory()->create();
+
+    $this->actingAs($user)
+        ->get(route('tasks.index'))
+        ->assertOk()
+        ->assertInertia(fn ($page) => $page
+            ->component('Tasks/Index')
+            ->has('tasks.data', 1)
+            ->where('tasks.data.0.id', $own->id)
+        );
+});
+
+test('users cannot view another user\'s task', function () {
+    $task = Task::factory()->create();
+
+    $this->actingAs(User::factory()->create())
+        ->get(route('tasks.show', $task))
+        ->assertForbidden();
+});
+
+test('users can create tasks in their own lists', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+
+    $this->actingAs($user)
+        ->post(route('tasks.store'), [
+            'title' => 'Write report',
+            'list_id' => $list->id,
+        ])
+        ->assertSessionHasNoErrors()
+        ->assertRedirect(route('tasks.index'));
+
+    expect($list->tasks()->where('title', 'Write report')->exists())->toBeTrue();
+});
+
+test('users cannot create tasks in another user\'s list', function () {
+    $list = TaskList::factory()->create();
+
+    $this->actingAs(User::factory()->create())
+        ->post(route('tasks.store'), [
+            'title' => 'Sneaky task',
+            'list_id' => $list->id,
+        ])
+        ->assertSessionHasErrors('list_id');
+
+    expect(Task::count())->toBe(0);
+});
+
+test('users cannot update another user\'s task', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+    $task = Task::factory()->create(['title' => 'Original']);
+
+    $this->actingAs($user)
+        ->put(route('tasks.update', $task), [
+            'title' => 'Hijacked',
+            'list_id' => $list->id,
+        ])
+        ->assertForbidden();
+
+    expect($task->fresh()->title)->toBe('Original');
+});
+
+test('users cannot move their task into another user\'s list', function () {
+    $user = User::factory()->create();
+    $task = Task::factory()->for(TaskList::factory()->for($user), 'list')->create();
+    $foreignList = TaskList::factory()->create();
+
+    $this->actingAs($user)
+        ->put(route('tasks.update', $task), [
+            'title' => $task->title,
+            'list_id' => $foreignList->id,
+        ])
+        ->assertSessionHasErrors('list_id');
+
+    expect($task->fresh()->list_id)->not->toBe($foreignList->id);
+});
+
+test('users cannot delete another user\'s task', function () {
+    $task = Task::factory()->create();
+
+    $this->actingAs(User::factory()->create())
+        ->delete(route('tasks.destroy', $task))
+        ->assertForbidden();
+
+    expect($task->fresh())->not->toBeNull();
+});
+
+test('users can delete their own task', function () {
+    $user = User::factory()->create();
+    $task = Task::factory()->for(TaskList::factory()->for($user), 'list')->create();
+
+    $this->actingAs($user)
+        ->from(route('tasks.index', ['search' => 'report', 'page' => 2]))
+        ->delete(route('tasks.destroy', $task))
+        ->assertRedirect(route('tasks.index', ['search' => 'report', 'page' => 2]));
+
+    $this->assertSoftDeleted($task);
+});
@@ -0,0 +1,119 @@
+<?php
+
+use App\Models\Tag;
+use App\Models\Task;
+use App\Models\TaskList;
+use App\Models\User;
+
+test('selected tasks can be completed and reopened together', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+    $tasks = Task::factory()->for($list, 'list')->count(3)->create();
+
+    $this->actingAs($user)
+        ->patch(route('tasks.batch'), [
+            'ids' => $tasks->take(2)->pluck('id')->all(),
+            'action' => 'complete',
+        ])
+        ->assertSessionHasNoErrors()
+        ->assertSessionHas('success', '2 tasks completed.');
+
+    expect($list->tasks()->where('is_completed', true)->count())->toBe(2);
+
+    $this->actingAs($user)
+        ->patch(route('tasks.batch'), [
+            'ids' => [$tasks->first()->id],
+            'action' => 'reopen',
+        ])
+        ->assertSessionHas('success', 'Task reopened.');
+
+    expect($tasks->first()->fresh()->is_completed)->toBeFalse();
+});
+
+test('selected tasks can be moved, rescheduled and tagged', function () {
+    $user = User::factory()->create();
+    [$from, $to] = TaskList::factory()->for($user)->count(2)->create();
+    $tag = Tag::factory()->for($user)->create();
+    $ids = Task::factory()->for($from, 'list')->count(2)->create()->pluck('id')->all();
+
+    $this->actingAs($user)
+        ->patch(route('tasks.batch'), ['ids' => $ids, 'action' => 'move', 'list_id' => $to->id])
+        ->assertSessionHasNoErrors();
+
+    $this->actingAs($user)
+        ->patch(route('tasks.batch'), ['ids' => $ids, 'action' => 'due_date', 'due_date' => '2026-11-01'])
+        ->assertSessionHasNoErrors();
+
+    $this->actingAs($user)
+        ->patch(route('tasks.batch'), ['ids' => $ids, 'action' => 'tag', 'tag_id' => $tag->id])
+        ->assertSessionHasNoErrors();
+
+    foreach (Task::findMany($ids) as $task) {
+        expect($task)
+            ->list_id->toBe($to->id)
+            ->due_date->toDateString()->toBe('2026-11-01')
+            ->and($task->tags->pluck('id')->all())->toBe([$tag->id]);
+    }
+});
+
+test('selected tasks can be deleted and the deletion undone', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+    $tasks = Task::factory()->for($list, 'list')->count(2)->create();
+
+    $this->actingAs($user)
+        ->patch(route('tasks.batch'), [
+            'ids' => $tasks->pluck('id')->all(),
+            'action' => 'delete',
+        ])
+        ->assertSessionHas('success', '2 tasks moved to trash.');
+
+    $tasks->each(fn ($task) => $this->assertSoftDeleted($task));
+
+    $this->actingAs($user)->post(route('tasks.undo'));
+
+    $tasks->each(fn ($task) => $this->assertNotSoftDeleted($task));
+});
+
+test('a batch touching another user\'s task is rejected as a whole', function () {
+    $user = User::factory()->create();
+    $own = taskOwnedBy($user);
+    $foreign = taskOwnedBy(User::factory()->create());
+
+    $this->actingAs($user)
+        ->patch(route('tasks.batch'), [
+            'ids' => [$own->id, $foreign->id],
+            'action' => 'complete',
+        ])
+        ->assertForbidden();
+
+    expect($own->fresh()->is_completed)->toBeFalse()
+        ->and($foreign->fresh()->is_completed)->toBeFalse();
+});
+
+test('batch moves only accept the user\'s own lists and tags', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user);
+
+    $this->actingAs($user)
+        ->patch(route('tasks.batch'), [
+            'ids' => [$task->id],
+            'action' => 'move',
+            'list_id' => TaskList::factory()->create()->id,
+        ])
+        ->assertSessionHasErrors('list_id');
+
+    $this->actingAs($user)
+        ->patch(route('tasks.batch'), [
+            'ids' => [$task->id],
+            'action' => 'tag',
+            'tag_id' => Tag::factory()->create()->id,
+        ])
+        ->assertSessionHasErrors('tag_id');
+});
+
+test('a batch needs a known action and at least one task', function () {
+    $this->actingAs(User::factory()->create())
+        ->patch(route('tasks.batch'), ['ids' => [], 'action' => 'archive'])
+        ->assertSessionHasErrors(['ids', 'action']);
+});
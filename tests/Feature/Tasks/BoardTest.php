@@ -0,0 +1,92 @@
+<?php
+
+use App\Models\Task;
+use App\Models\TaskList;
+use App\Models\User;
+
+test('the board view preference is remembered per user', function () {
+    $user = User::factory()->create();
+
+    $this->actingAs($user)
+        ->from(route('tasks.index'))
+        ->patch(route('tasks.view'), [
+            'task_view' => 'board',
+            'task_board_group' => 'status',
+        ])
+        ->assertSessionHasNoErrors()
+        ->assertRedirect(route('tasks.index'));
+
+    expect($user->fresh())
+        ->task_view->toBe('board')
+        ->task_board_group->toBe('status');
+
+    $this->actingAs($user)
+        ->get(route('tasks.index'))
+        ->assertInertia(fn ($page) => $page
+            ->where('view.mode', 'board')
+            ->where('view.group', 'status')
+        );
+});
+
+test('the board view must be a known mode', function () {
+    $this->actingAs(User::factory()->create())
+        ->patch(route('tasks.view'), ['task_view' => 'gantt'])
+        ->assertSessionHasErrors('task_view');
+});
+
+test('dropping a card on another list moves the task', function () {
+    $user = User::factory()->create();
+    [$from, $to] = TaskList::factory()->for($user)->count(2)->create();
+    $task = Task::factory()->for($from, 'list')->create();
+
+    $this->actingAs($user)
+        ->patch(route('tasks.move', $task), ['list_id' => $to->id])
+        ->assertSessionHasNoErrors();
+
+    expect($task->fresh()->list_id)->toBe($to->id);
+});
+
+test('dropping a card on the done column completes the task', function () {
+    $user = User::factory()->create();
+    $task = Task::factory()->for(TaskList::factory()->for($user), 'list')->create();
+
+    $this->actingAs($user)
+        ->patch(route('tasks.move', $task), ['status' => 'done'])
+        ->assertSessionHasNoErrors();
+
+    expect($task->fresh())
+        ->status->toBe('done')
+        ->is_completed->toBeTrue();
+});
+
+test('reopening a completed task moves it back to the todo column', function () {
+    $user = User::factory()->create();
+    $task = Task::factory()
+        ->for(TaskList::factory()->for($user), 'list')
+        ->completed()
+        ->create();
+
+    expect($task->status)->toBe('done');
+
+    $task->update(['is_completed' => false]);
+
+    expect($task->fresh()->status)->toBe('todo');
+});
+
+test('tasks cannot be moved into another user\'s list', function () {
+    $user = User::factory()->create();
+    $task = Task::factory()->for(TaskList::factory()->for($user), 'list')->create();
+    $foreignList = TaskList::factory()->create();
+
+    $this->actingAs($user)
+        ->patch(route('tasks.move', $task), ['list_id' => $foreignList->id])
+        ->assertSessionHasErrors('list_id');
+});
+
+test('another user\'s task cannot be moved', function () {
+    $task = Task::factory()->create();
+
+    $this->actingAs(User::factory()->create())
+        ->patch(route('tasks.move', $task), ['status' => 'done'])
+        ->assertForbidden();
+});
@@ -0,0 +1,84 @@
+<?php
+
+use App\Models\ChecklistItem;
+use App\Models\Task;
+use App\Models\User;
+
+test('checklist items can be added to a task', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user);
+
+    $this->actingAs($user)
+        ->post(route('tasks.checklist-items.store', $task), ['title' => 'Draft outline'])
+        ->assertSessionHasNoErrors();
+
+    $this->actingAs($user)
+        ->post(route('tasks.checklist-items.store', $task), ['title' => 'Send for review'])
+        ->assertSessionHasNoErrors();
+
+    expect($task->checklistItems()->pluck('title')->all())
+        ->toBe(['Draft outline', 'Send for review']);
+});
+
+test('checklist items can be ticked off', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user);
+    $item = ChecklistItem::factory()->for($task)->create();
+
+    $this->actingAs($user)
+        ->put(route('tasks.checklist-items.update', [$task, $item]), ['is_completed' => true])
+        ->assertSessionHasNoErrors();
+
+    expect($item->fresh()->is_completed)->toBeTrue();
+    expect($task->fresh()->is_completed)->toBeFalse();
+});
+
+test('the parent completes when every item is done and auto-complete is on', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user, ['auto_complete' => true]);
+    ChecklistItem::factory()->for($task)->completed()->create();
+    $item = ChecklistItem::factory()->for($task)->create();
+
+    $this->actingAs($user)
+        ->put(route('tasks.checklist-items.update', [$task, $item]), ['is_completed' => true]);
+
+    expect($task->fresh()->is_completed)->toBeTrue();
+
+    $this->actingAs($user)
+        ->put(route('tasks.checklist-items.update', [$task, $item]), ['is_completed' => false]);
+
+    expect($task->fresh()->is_completed)->toBeFalse();
+});
+
+test('checklist items can be deleted', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user);
+    $item = ChecklistItem::factory()->for($task)->create();
+
+    $this->actingAs($user)
+        ->delete(route('tasks.checklist-items.destroy', [$task, $item]))
+        ->assertSessionHasNoErrors();
+
+    expect($item->fresh())->toBeNull();
+});
+
+test('items are scoped to the task in the url', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user);
+    $otherItem = ChecklistItem::factory()->create();
+
+    $this->actingAs($user)
+        ->delete(route('tasks.checklist-items.destroy', [$task, $otherItem]))
+        ->assertNotFound();
+});
+
+test('users cannot change another user\'s checklist', function () {
+    $task = Task::factory()->create();
+    $item = ChecklistItem::factory()->for($task)->create();
+
+    $this->actingAs(User::factory()->create())
+        ->put(route('tasks.checklist-items.update', [$task, $item]), ['is_completed' => true])
+        ->assertForbidden();
+
+    expect($item->fresh()->is_completed)->toBeFalse();
+});
@@ -0,0 +1,106 @@
+<?php
+
+use App\Models\Task;
+use App\Models\TaskList;
+use App\Models\User;
+use Illuminate\Support\Carbon;
+
+beforeEach(function () {
+    // A Wednesday, so "this week" runs from the 18th to the 24th.
+    Carbon::setTestNow('2026-10-21 09:00:00');
+});
+
+test('tasks can be filtered by several lists at once', function () {
+    $user = User::factory()->create();
+    [$work, $home, $errands] = TaskList::factory()->for($user)->count(3)->create();
+    Task::factory()->for($work, 'list')->create();
+    Task::factory()->for($home, 'list')->create();
+    Task::factory()->for($errands, 'list')->create();
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['lists' => [$work->id, $home->id]]))
+        ->assertInertia(fn ($page) => $page
+            ->has('tasks.data', 2)
+            ->where('filters.lists', [$work->id, $home->id])
+        );
+});
+
+test('tasks can be filtered by named due-date windows', function (string $window, array $expected) {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+
+    $tasks = collect([
+        'overdue' => ['due_date' => '2026-10-19'],
+        'overdue but done' => ['due_date' => '2026-10-19', 'is_completed' => true],
+        'today' => ['due_date' => '2026-10-21'],
+        'saturday' => ['due_date' => '2026-10-24'],
+        'next week' => ['due_date' => '2026-10-26'],
+        'undated' => ['due_date' => null],
+    ])->map(fn ($attributes, $title) => Task::factory()->for($list, 'list')->create(['title' => $title, ...$attributes]));
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['due' => $window, 'sort' => 'title']))
+        ->assertInertia(fn ($page) => $page
+            ->where('tasks.data', fn ($data) => $data->pluck('title')->all() === $expected)
+            ->where('filters.due', $window)
+        );
+})->with([
+    'overdue' => ['overdue', ['overdue']],
+    'due today' => ['today', ['today']],
+    'due this week' => ['week', ['overdue', 'overdue but done', 'saturday', 'today']],
+    'no due date' => ['none', ['undated']],
+]);
+
+test('due-date windows follow the user\'s time zone', function () {
+    // Still the 20th in Honolulu at 09:00 UTC on the 21st.
+    $user = User::factory()->create(['timezone' => 'Pacific/Honolulu']);
+    $list = TaskList::factory()->for($user)->create();
+    Task::factory()->for($list, 'list')->create(['title' => 'overdue', 'due_date' => '2026-10-19']);
+    Task::factory()->for($list, 'list')->create(['title' => 'today', 'due_date' => '2026-10-20']);
+    Task::factory()->for($list, 'list')->create(['title' => 'tomorrow', 'due_date' => '2026-10-21']);
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['due' => 'today']))
+        ->assertInertia(fn ($page) => $page
+            ->where('tasks.data', fn ($data) => $data->pluck('title')->all() === ['today'])
+        );
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['search' => 'is:overdue']))
+        ->assertInertia(fn ($page) => $page
+            ->where('tasks.data', fn ($data) => $data->pluck('title')->all() === ['overdue'])
+        );
+});
+
+test('tasks can be filtered by a due-date range alongside a search', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+    $inRange = Task::factory()->for($list, 'list')->create(['title' => 'Quarterly report', 'due_date' => '2026-11-03']);
+    Task::factory()->for($list, 'list')->create(['title' => 'Quarterly review', 'due_date' => '2026-12-01']);
+    Task::factory()->for($list, 'list')->create(['title' => 'Groceries', 'due_date' => '2026-11-04']);
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', [
+            'search' => 'Quarterly',
+            'due_from' => '2026-11-01',
+            'due_to' => '2026-11-30',
+        ]))
+        ->assertInertia(fn ($page) => $page
+            ->has('tasks.data', 1)
+            ->where('tasks.data.0.id', $inRange->id)
+            ->where('filters.due_from', '2026-11-01')
+            ->where('filters.due_to', '2026-11-30')
+        );
+});
+
+test('due-date filters are validated', function () {
+    $user = User::factory()->create();
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', [
+            'due' => 'someday',
+            'due_from' => '2026-11-30',
+            'due_to' => '2026-11-01',
+        ]))
+        ->assertSessionHasErrors(['due', 'due_to']);
+});
@@ -0,0 +1,96 @@
+<?php
+
+use App\Models\Task;
+use App\Models\TaskList;
+use App\Models\User;
+
+test('a single field can be patched without resending the rest', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+    $task = Task::factory()->for($list, 'list')->create([
+        'title' => 'Draft',
+        'description' => 'Keep me',
+        'priority' => 'high',
+        'due_date' => '2026-11-01',
+    ]);
+
+    $this->actingAs($user)
+        ->patch(route('tasks.update', $task), ['title' => 'Final'])
+        ->assertSessionHasNoErrors();
+
+    $task->refresh();
+
+    expect($task->title)->toBe('Final')
+        ->and($task->description)->toBe('Keep me')
+        ->and($task->priority)->toBe('high')
+        ->and($task->list_id)->toBe($list->id)
+        ->and($task->due_date->toDateString())->toBe('2026-11-01');
+});
+
+test('the due date can be changed and cleared inline', function () {
+    $user = User::factory()->create();
+    $task = Task::factory()->for(TaskList::factory()->for($user), 'list')->create();
+
+    $this->actingAs($user)
+        ->patch(route('tasks.update', $task), ['due_date' => '2026-12-24'])
+        ->assertSessionHasNoErrors();
+
+    expect($task->fresh()->due_date->toDateString())->toBe('2026-12-24');
+
+    $this->actingAs($user)
+        ->patch(route('tasks.update', $task), ['due_date' => null])
+        ->assertSessionHasNoErrors();
+
+    expect($task->fresh()->due_date)->toBeNull();
+});
+
+test('a task can be moved to another of the user\'s lists inline', function () {
+    $user = User::factory()->create();
+    [$from, $to] = TaskList::factory()->for($user)->count(2)->create();
+    $task = Task::factory()->for($from, 'list')->create(['title' => 'Moving']);
+
+    $this->actingAs($user)
+        ->patch(route('tasks.update', $task), ['list_id' => $to->id])
+        ->assertSessionHasNoErrors();
+
+    expect($task->fresh())
+        ->list_id->toBe($to->id)
+        ->title->toBe('Moving');
+});
+
+test('patched fields are still validated', function (array $data, string $error) {
+    $user = User::factory()->create();
+    $task = Task::factory()->for(TaskList::factory()->for($user), 'list')->create(['title' => 'Original']);
+
+    $this->actingAs($user)
+        ->patch(route('tasks.update', $task), $data)
+        ->assertSessionHasErrors($error);
+
+    expect($task->fresh()->title)->toBe('Original');
+})->with([
+    'blank title' => [['title' => ''], 'title'],
+    'missing list' => [['list_id' => null], 'list_id'],
+    'another user\'s list' => [fn () => ['list_id' => TaskList::factory()->create()->id], 'list_id'],
+    'invalid date' => [['due_date' => 'someday'], 'due_date'],
+]);
+
+test('inline edits return to the filtered task list', function () {
+    $user = User::factory()->create();
+    $task = Task::factory()->for(TaskList::factory()->for($user), 'list')->create();
+    $url = route('tasks.index', ['search' => 'invoice', 'page' => 2]);
+
+    $this->actingAs($user)
+        ->from($url)
+        ->patch(route('tasks.update', $task), ['title' => 'Invoice Acme'])
+        ->assertRedirect($url);
+});
+
+test('users cannot patch another user\'s task', function () {
+    $task = Task::factory()->create(['title' => 'Original']);
+
+    $this->actingAs(User::factory()->create())
+        ->patch(route('tasks.update', $task), ['title' => 'Hijacked'])
+        ->assertForbidden();
+
+    expect($task->fresh()->title)->toBe('Original');
+});
@@ -0,0 +1,73 @@
+<?php
+
+use App\Models\Task;
+use App\Models\TaskList;
+use App\Models\User;
+
+test('tasks can be created with a priority', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+
+    $this->actingAs($user)
+        ->post(route('tasks.store'), [
+            'title' => 'Pay rent',
+            'list_id' => $list->id,
+            'priority' => 'urgent',
+        ])
+        ->assertSessionHasNoErrors();
+
+    expect(Task::first()->priority)->toBe('urgent');
+});
+
+test('tasks default to no priority', function () {
+    $task = Task::factory()->create();
+
+    expect($task->fresh()->priority)->toBe('none');
+});
+
+test('unknown priorities are rejected', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+
+    $this->actingAs($user)
+        ->post(route('tasks.store'), [
+            'title' => 'Pay rent',
+            'list_id' => $list->id,
+            'priority' => 'whenever',
+        ])
+        ->assertSessionHasErrors('priority');
+});
+
+test('tasks can be filtered by priority', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+    $high = Task::factory()->for($list, 'list')->create(['priority' => 'high']);
+    Task::factory()->for($list, 'list')->create(['priority' => 'low']);
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['priority' => 'high']))
+        ->assertInertia(fn ($page) => $page
+            ->has('tasks.data', 1)
+            ->where('tasks.data.0.id', $high->id)
+            ->where('filters.priority', 'high')
+        );
+});
+
+test('tasks can be sorted by priority', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+
+    foreach (['low', 'urgent', 'none', 'medium', 'high'] as $priority) {
+        Task::factory()->for($list, 'list')->create(['priority' => $priority]);
+    }
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['sort' => 'priority']))
+        ->assertInertia(fn ($page) => $page
+            ->where('tasks.data.0.priority', 'urgent')
+            ->where('tasks.data.1.priority', 'high')
+            ->where('tasks.data.2.priority', 'medium')
+            ->where('tasks.data.3.priority', 'low')
+            ->where('tasks.data.4.priority', 'none')
+        );
+});
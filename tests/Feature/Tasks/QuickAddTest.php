@@ -0,0 +1,75 @@
+<?php
+
+use App\Models\TaskList;
+use App\Models\User;
+use Illuminate\Support\Carbon;
+
+beforeEach(function () {
+    Carbon::setTestNow('2026-10-21 09:00:00');
+});
+
+test('a quick-add line is previewed against the user\'s lists', function () {
+    $user = User::factory()->create();
+    $home = TaskList::factory()->for($user)->create(['title' => 'Home']);
+    TaskList::factory()->create(['title' => 'Work']);
+
+    $this->actingAs($user)
+        ->getJson(route('tasks.parse', ['text' => 'Pay rent tomorrow #Home !high every month']))
+        ->assertOk()
+        ->assertExactJson([
+            'title' => 'Pay rent',
+            'due_date' => '2026-10-22',
+            'list_id' => $home->id,
+            'priority' => 'high',
+            'recurrence' => ['frequency' => 'monthly', 'interval' => 1],
+        ]);
+
+    $this->actingAs($user)
+        ->getJson(route('tasks.parse', ['text' => 'Plan the offsite #Work']))
+        ->assertOk()
+        ->assertJsonPath('title', 'Plan the offsite #Work')
+        ->assertJsonPath('list_id', null);
+});
+
+test('quick-add dates are relative to the user\'s own day', function () {
+    // Still the 20th in Honolulu at 09:00 UTC on the 21st.
+    $user = User::factory()->create(['timezone' => 'Pacific/Honolulu']);
+
+    $this->actingAs($user)
+        ->getJson(route('tasks.parse', ['text' => 'Call the bank tomorrow']))
+        ->assertOk()
+        ->assertJsonPath('due_date', '2026-10-21');
+});
+
+test('an empty line previews an empty task', function () {
+    $this->actingAs(User::factory()->create())
+        ->getJson(route('tasks.parse'))
+        ->assertOk()
+        ->assertJsonPath('title', '');
+});
+
+test('guests cannot preview quick-add lines', function () {
+    $this->get(route('tasks.parse', ['text' => 'Pay rent']))
+        ->assertRedirect(route('login'));
+});
+
+test('a previewed task can be stored as it was parsed', function () {
+    $user = User::factory()->create();
+    $home = TaskList::factory()->for($user)->create(['title' => 'Home']);
+
+    $parsed = $this->actingAs($user)
+        ->getJson(route('tasks.parse', ['text' => 'Pay rent tomorrow #Home !high every month']))
+        ->json();
+
+    $this->actingAs($user)
+        ->post(route('tasks.store'), $parsed)
+        ->assertSessionHasNoErrors()
+        ->assertRedirect(route('tasks.index'));
+
+    $task = $home->tasks()->sole();
+
+    expect($task->title)->toBe('Pay rent')
+        ->and($task->due_date->toDateString())->toBe('2026-10-22')
+        ->and($task->priority)->toBe('high')
+        ->and($task->recurrence)->toBe(['frequency' => 'monthly', 'interval' => 1, 'month_day' => 22]);
+});
@@ -0,0 +1,108 @@
+<?php
+
+use App\Models\ChecklistItem;
+use App\Models\Task;
+use App\Models\User;
+
+function recurringTaskFor(User $user, array $recurrence): Task
+{
+    return taskOwnedBy($user, [
+        'title' => 'Weekly report',
+        'due_date' => '2026-10-19',
+        'recurrence' => $recurrence,
+    ]);
+}
+
+test('recurring tasks are assigned to a series', function () {
+    $task = recurringTaskFor(User::factory()->create(), ['frequency' => 'daily']);
+
+    expect($task->series_id)->not->toBeNull();
+});
+
+test('completing a recurring task creates the next occurrence', function () {
+    $user = User::factory()->create();
+    $task = recurringTaskFor($user, ['frequency' => 'weekly', 'weekdays' => [1]]);
+
+    $this->actingAs($user)
+        ->put(route('tasks.update', $task), [
+            'title' => $task->title,
+            'list_id' => $task->list_id,
+            'due_date' => '2026-10-19',
+            'recurrence' => $task->recurrence,
+            'is_completed' => true,
+        ])
+        ->assertSessionHasNoErrors();
+
+    $series = Task::where('series_id', $task->series_id)->orderBy('id')->get();
+
+    expect($series)->toHaveCount(2);
+    expect($series[0]->is_completed)->toBeTrue();
+    expect($series[1])
+        ->is_completed->toBeFalse()
+        ->title->toBe('Weekly report')
+        ->and($series[1]->due_date->toDateString())->toBe('2026-10-26');
+});
+
+test('monthly tasks keep their day of the month after a short month', function () {
+    $task = taskOwnedBy(User::factory()->create(), [
+        'due_date' => '2027-01-31',
+        'recurrence' => ['frequency' => 'monthly'],
+    ]);
+
+    expect($task->recurrence)->toBe(['frequency' => 'monthly', 'interval' => 1, 'month_day' => 31]);
+
+    $task->update(['is_completed' => true]);
+    $february = Task::where('series_id', $task->series_id)->where('is_completed', false)->sole();
+
+    $february->update(['is_completed' => true]);
+    $march = Task::where('series_id', $task->series_id)->where('is_completed', false)->sole();
+
+    expect($february->due_date->toDateString())->toBe('2027-02-28')
+        ->and($march->due_date->toDateString())->toBe('2027-03-31');
+});
+
+test('the next occurrence gets a fresh copy of the checklist', function () {
+    $user = User::factory()->create();
+    $task = recurringTaskFor($user, ['frequency' => 'daily']);
+    ChecklistItem::factory()->for($task)->completed()->create(['title' => 'Collect numbers']);
+
+    $task->update(['is_completed' => true]);
+
+    $next = Task::where('series_id', $task->series_id)->whereKeyNot($task->id)->sole();
+
+    expect($next->checklistItems)->toHaveCount(1);
+    expect($next->checklistItems->first())
+        ->title->toBe('Collect numbers')
+        ->is_completed->toBeFalse();
+});
+
+test('completing the same occurrence twice does not duplicate the series', function () {
+    $task = recurringTaskFor(User::factory()->create(), ['frequency' => 'daily']);
+
+    $task->update(['is_completed' => true]);
+    $task->update(['is_completed' => false]);
+    $task->update(['is_completed' => true]);
+
+    expect(Task::where('series_id', $task->series_id)->count())->toBe(2);
+});
+
+test('tasks without a recurrence do not repeat', function () {
+    $task = taskOwnedBy(User::factory()->create(), ['due_date' => '2026-10-19']);
+
+    $task->update(['is_completed' => true]);
+
+    expect(Task::count())->toBe(1);
+});
+
+test('recurrence rules are validated', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user);
+
+    $this->actingAs($user)
+        ->put(route('tasks.update', $task), [
+            'title' => $task->title,
+            'list_id' => $task->list_id,
+            'recurrence' => ['frequency' => 'hourly'],
+        ])
+        ->assertSessionHasErrors('recurrence.frequency');
+});
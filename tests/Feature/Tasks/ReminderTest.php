@@ -0,0 +1,207 @@
+<?php
+
+use App\Jobs\SendDueReminders;
+use App\Models\Task;
+use App\Models\TaskList;
+use App\Models\User;
+use App\Notifications\TaskReminder;
+use Illuminate\Support\Carbon;
+use Illuminate\Support\Facades\Mail;
+use Illuminate\Support\Facades\Notification;
+
+beforeEach(function () {
+    Carbon::setTestNow('2026-10-21 12:00:00');
+});
+
+test('reminders are counted back from the due time in the owner\'s time zone', function () {
+    $user = User::factory()->create(['timezone' => 'America/New_York']);
+    $list = TaskList::factory()->for($user)->create();
+
+    $this->actingAs($user)
+        ->post(route('tasks.store'), [
+            'title' => 'Submit the report',
+            'list_id' => $list->id,
+            'due_date' => '2026-10-22',
+            'due_time' => '15:00',
+            'reminders' => [60, 0],
+        ])
+        ->assertSessionHasNoErrors();
+
+    $task = Task::where('title', 'Submit the report')->firstOrFail();
+
+    expect($task->due_time)->toBe('15:00')
+        ->and($task->dueAt()->toDateTimeString())->toBe('2026-10-22 19:00:00')
+        ->and($task->reminders->pluck('minutes_before')->all())->toBe([0, 60])
+        ->and($task->reminders[0]->remind_at->toDateTimeString())->toBe('2026-10-22 19:00:00')
+        ->and($task->reminders[1]->remind_at->toDateTimeString())->toBe('2026-10-22 18:00:00');
+});
+
+test('a task without a due time is due at the default time of day', function () {
+    $task = taskOwnedBy(User::factory()->create(), ['due_date' => '2026-10-23']);
+
+    $task->syncReminders([1440]);
+
+    expect($task->reminders()->first()->remind_at->toDateTimeString())->toBe('2026-10-22 09:00:00');
+});
+
+test('moving the due date moves the reminders and arms them again', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user, ['due_date' => '2026-10-21', 'due_time' => '11:00']);
+    $task->syncReminders([30]);
+    $task->reminders()->update(['sent_at' => now()]);
+
+    $this->actingAs($user)
+        ->patch(route('tasks.update', $task), ['due_date' => '2026-10-24'])
+        ->assertSessionHasNoErrors();
+
+    $reminder = $task->reminders()->first();
+
+    expect($reminder->remind_at->toDateTimeString())->toBe('2026-10-24 10:30:00')
+        ->and($reminder->sent_at)->toBeNull();
+});
+
+test('clearing the due date clears the due time and its reminders\' times', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user, ['due_date' => '2026-10-24', 'due_time' => '08:15']);
+    $task->syncReminders([10]);
+
+    $this->actingAs($user)
+        ->patch(route('tasks.update', $task), ['due_date' => null])
+        ->assertSessionHasNoErrors();
+
+    expect($task->fresh()->due_time)->toBeNull()
+        ->and($task->reminders()->first()->remind_at)->toBeNull();
+});
+
+test('reminders are replaced as a whole and kept when not sent', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user, ['due_date' => '2026-10-24']);
+    $task->syncReminders([0, 60]);
+    $kept = $task->reminders()->where('minutes_before', 60)->first();
+
+    $this->actingAs($user)
+        ->patch(route('tasks.update', $task), ['reminders' => [60, 1440]])
+        ->assertSessionHasNoErrors();
+
+    expect($task->reminders()->pluck('minutes_before')->all())->toBe([60, 1440])
+        ->and($task->reminders()->where('minutes_before', 60)->first()->is($kept))->toBeTrue();
+
+    $this->actingAs($user)
+        ->patch(route('tasks.update', $task), ['title' => 'Renamed'])
+        ->assertSessionHasNoErrors();
+
+    expect($task->reminders()->count())->toBe(2);
+});
+
+test('due times and reminders are validated', function (array $data, string $field) {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user, ['due_date' => '2026-10-24']);
+
+    $this->actingAs($user)
+        ->patch(route('tasks.update', $task), $data)
+        ->assertSessionHasErrors($field);
+})->with([
+    [['due_time' => '3pm'], 'due_time'],
+    [['due_time' => '25:00'], 'due_time'],
+    [['reminders' => [-5]], 'reminders.0'],
+    [['reminders' => [99999]], 'reminders.0'],
+    [['reminders' => [10, 10]], 'reminders.0'],
+    [['reminders' => [0, 10, 60, 1440, 10080, 20160]], 'reminders'],
+]);
+
+test('changing time zone keeps reminders at the same local time', function () {
+    $user = User::factory()->create(['timezone' => 'UTC']);
+    $task = taskOwnedBy($user, ['due_date' => '2026-10-22', 'due_time' => '15:00']);
+    $task->syncReminders([0]);
+
+    $this->actingAs($user)
+        ->patch(route('profile.update'), [
+            'name' => $user->name,
+            'email' => $user->email,
+            'timezone' => 'Europe/Berlin',
+        ])
+        ->assertSessionHasNoErrors();
+
+    expect($task->reminders()->first()->remind_at->toDateTimeString())->toBe('2026-10-22 13:00:00');
+});
+
+test('a recurring task passes its reminders on to the next occurrence', function () {
+    $task = taskOwnedBy(User::factory()->create(), [
+        'due_date' => '2026-10-21',
+        'due_time' => '18:00',
+        'recurrence' => ['frequency' => 'daily', 'interval' => 1],
+    ]);
+    $task->syncReminders([15]);
+
+    $task->update(['is_completed' => true]);
+
+    $next = Task::where('series_id', $task->series_id)->whereKeyNot($task->id)->firstOrFail();
+
+    expect($next->due_time)->toBe('18:00')
+        ->and($next->reminders()->first()->remind_at->toDateTimeString())->toBe('2026-10-22 17:45:00');
+});
+
+test('due reminders are sent to the task owner once', function () {
+    Notification::fake();
+
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user, ['due_date' => '2026-10-21', 'due_time' => '12:20']);
+    $task->syncReminders([30]);
+
+    (new SendDueReminders)->handle();
+    (new SendDueReminders)->handle();
+
+    Notification::assertSentToTimes($user, TaskReminder::class, 1);
+    Notification::assertSentTo($user, TaskReminder::class, function (TaskReminder $notification) use ($task, $user) {
+        return $notification->task->is($task)
+            && $notification->toArray($user) === [
+                'task_id' => $task->id,
+                'title' => $task->title,
+                'due_at' => '2026-10-21T12:20:00+00:00',
+                'minutes_before' => 30,
+            ];
+    });
+
+    expect($task->reminders()->first()->sent_at)->not->toBeNull();
+});
+
+test('reminders are not sent early or for finished tasks', function () {
+    Notification::fake();
+
+    $user = User::factory()->create();
+    taskOwnedBy($user, ['due_date' => '2026-10-21', 'due_time' => '13:00'])->syncReminders([30]);
+    taskOwnedBy($user, ['due_date' => '2026-10-21', 'is_completed' => true])->syncReminders([0]);
+    tap(taskOwnedBy($user, ['due_date' => '2026-10-21']), function (Task $task) {
+        $task->syncReminders([0]);
+        $task->delete();
+    });
+    taskOwnedBy($user)->syncReminders([0]);
+
+    (new SendDueReminders)->handle();
+
+    Notification::assertNothingSent();
+});
+
+test('reminders are emailed as well to users who opted in', function () {
+    $task = taskOwnedBy(User::factory()->create(), ['due_date' => '2026-10-22']);
+    $notification = new TaskReminder($task, 60);
+
+    expect($notification->via(User::factory()->make()))->toBe(['database'])
+        ->and($notification->via(User::factory()->make(['email_reminders' => true])))->toBe(['database', 'mail']);
+});
+
+test('the reminder email shows when the task is due in the user\'s time zone', function () {
+    $user = User::factory()->create(['timezone' => 'America/New_York', 'email_reminders' => true]);
+    $task = taskOwnedBy($user, ['title' => 'Submit the report', 'due_date' => '2026-10-22', 'due_time' => '15:00']);
+    $task->syncReminders([60]);
+    $task->reminders()->update(['remind_at' => now()->subMinute()]);
+
+    (new SendDueReminders)->handle();
+
+    $email = Mail::getSymfonyTransport()->messages()->sole()->getOriginalMessage();
+
+    expect($email->getSubject())->toBe('Reminder: Submit the report')
+        ->and($email->getHtmlBody())
+        ->toContain('This task is due Thursday, October 22 at 3:00 PM.')
+        ->toContain(route('tasks.show', $task));
+});
@@ -0,0 +1,104 @@
+<?php
+
+use App\Models\Task;
+use App\Models\TaskList;
+use App\Models\User;
+
+function listWithTasks(User $user, int $count): array
+{
+    $list = TaskList::factory()->for($user)->create();
+
+    $tasks = collect(range(1, $count))
+        ->map(fn ($position) => Task::factory()->for($list, 'list')->create(['position' => $position * Task::POSITION_GAP]));
+
+    return [$list, $tasks];
+}
+
+test('new tasks are placed at the top of their list', function () {
+    $user = User::factory()->create();
+    [$list, $tasks] = listWithTasks($user, 2);
+
+    $task = Task::factory()->for($list, 'list')->create();
+
+    expect($task->position)->toBeLessThan($tasks->first()->position);
+});
+
+test('a task dropped between two neighbours only changes its own position', function () {
+    $user = User::factory()->create();
+    [$list, [$first, $second, $third]] = listWithTasks($user, 3);
+
+    $this->actingAs($user)
+        ->patch(route('tasks.reorder', $third), [
+            'previous_id' => $first->id,
+            'next_id' => $second->id,
+        ])
+        ->assertSessionHasNoErrors();
+
+    expect($list->tasks()->orderBy('position')->pluck('id')->all())
+        ->toBe([$first->id, $third->id, $second->id])
+        ->and($first->fresh()->position)->toBe($first->position)
+        ->and($second->fresh()->position)->toBe($second->position);
+});
+
+test('a task can be dropped at either end of its list', function () {
+    $user = User::factory()->create();
+    [$list, [$first, $second, $third]] = listWithTasks($user, 3);
+
+    $this->actingAs($user)->patch(route('tasks.reorder', $first), ['previous_id' => $third->id]);
+    $this->actingAs($user)->patch(route('tasks.reorder', $third), ['next_id' => $second->id]);
+
+    expect($list->tasks()->orderBy('position')->pluck('id')->all())
+        ->toBe([$third->id, $second->id, $first->id]);
+});
+
+test('the list is spread out again once neighbours run out of room', function () {
+    $user = User::factory()->create();
+    [$list, [$first, $second, $third]] = listWithTasks($user, 3);
+    $second->update(['position' => $first->position + 1e-7]);
+
+    $this->actingAs($user)->patch(route('tasks.reorder', $third), [
+        'previous_id' => $first->id,
+        'next_id' => $second->id,
+    ]);
+
+    expect($list->tasks()->orderBy('position')->pluck('id')->all())
+        ->toBe([$first->id, $third->id, $second->id]);
+});
+
+test('tasks can only be reordered against neighbours in the same list', function () {
+    $user = User::factory()->create();
+    [, [$task]] = listWithTasks($user, 1);
+    [, [$elsewhere]] = listWithTasks($user, 1);
+
+    $this->actingAs($user)
+        ->patch(route('tasks.reorder', $task), ['previous_id' => $elsewhere->id])
+        ->assertSessionHasErrors('previous_id');
+
+    $this->actingAs($user)
+        ->patch(route('tasks.reorder', $task), [])
+        ->assertSessionHasErrors(['previous_id', 'next_id']);
+});
+
+test('users cannot reorder another user\'s tasks', function () {
+    [, [$first, $second]] = listWithTasks(User::factory()->create(), 2);
+
+    $this->actingAs(User::factory()->create())
+        ->patch(route('tasks.reorder', $second), ['next_id' => $first->id])
+        ->assertForbidden();
+});
+
+test('the task list follows the custom order by default', function () {
+    $user = User::factory()->create();
+    [, [$first, $second]] = listWithTasks($user, 2);
+
+    $this->actingAs($user)
+        ->get(route('tasks.index'))
+        ->assertInertia(fn ($page) => $page
+            ->where('tasks.data.0.id', $first->id)
+            ->where('tasks.data.1.id', $second->id)
+        );
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['sort' => 'title']))
+        ->assertOk();
+});
@@ -0,0 +1,138 @@
+<?php
+
+use App\Models\Tag;
+use App\Models\Task;
+use App\Models\TaskList;
+use App\Models\User;
+use Illuminate\Support\Carbon;
+
+function searchTitles(User $user, string $search): array
+{
+    $page = test()->actingAs($user)
+        ->get(route('tasks.index', ['search' => $search, 'sort' => 'title']))
+        ->viewData('page');
+
+    return collect($page['props']['tasks']['data'])->pluck('title')->all();
+}
+
+test('the search box understands the task query language', function () {
+    Carbon::setTestNow('2026-10-21 09:00:00');
+
+    $user = User::factory()->create();
+    $work = TaskList::factory()->for($user)->create(['title' => 'Work']);
+    $home = TaskList::factory()->for($user)->create(['title' => 'Home']);
+    $urgent = Tag::factory()->for($user)->create(['name' => 'urgent']);
+
+    $match = Task::factory()->for($work, 'list')->create(['title' => 'Draft the quarterly report', 'due_date' => '2026-10-30']);
+    $match->tags()->attach($urgent);
+
+    Task::factory()->for($work, 'list')->create(['title' => 'Quarterly report appendix', 'due_date' => '2026-11-05'])->tags()->attach($urgent);
+    Task::factory()->for($work, 'list')->completed()->create(['title' => 'Old quarterly report', 'due_date' => '2026-10-01'])->tags()->attach($urgent);
+    Task::factory()->for($home, 'list')->create(['title' => 'Quarterly report for the HOA', 'due_date' => '2026-10-30'])->tags()->attach($urgent);
+    Task::factory()->for($work, 'list')->create(['title' => 'Quarterly report slides', 'due_date' => '2026-10-30']);
+
+    expect(searchTitles($user, 'list:Work due:<2026-11-01 is:open tag:urgent "quarterly report"'))
+        ->toBe(['Draft the quarterly report']);
+});
+
+test('relative due dates can be compared', function () {
+    Carbon::setTestNow('2026-10-21 09:00:00');
+
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+
+    Task::factory()->for($list, 'list')->create(['title' => 'Yesterday', 'due_date' => '2026-10-20']);
+    Task::factory()->for($list, 'list')->create(['title' => 'Today', 'due_date' => '2026-10-21']);
+    Task::factory()->for($list, 'list')->create(['title' => 'Tomorrow', 'due_date' => '2026-10-22']);
+
+    expect(searchTitles($user, 'due:today'))->toBe(['Today'])
+        ->and(searchTitles($user, 'due:<today'))->toBe(['Yesterday'])
+        ->and(searchTitles($user, 'due:>=today'))->toBe(['Today', 'Tomorrow']);
+});
+
+test('terms can be negated and priorities compared', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create(['title' => 'Home projects']);
+
+    Task::factory()->for($list, 'list')->create(['title' => 'Paint fence', 'priority' => 'urgent']);
+    Task::factory()->for($list, 'list')->create(['title' => 'Fix gate', 'priority' => 'high']);
+    Task::factory()->for($list, 'list')->create(['title' => 'Rake leaves', 'priority' => 'low']);
+
+    expect(searchTitles($user, 'list:"home projects" priority:>=high'))->toBe(['Fix gate', 'Paint fence'])
+        ->and(searchTitles($user, '-fence priority:>low'))->toBe(['Fix gate']);
+});
+
+test('syntax errors are reported back without discarding the rest of the search', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+    Task::factory()->for($list, 'list')->create(['title' => 'Quarterly report']);
+    Task::factory()->for($list, 'list')->create(['title' => 'Groceries']);
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['search' => 'quarterly owner:me']))
+        ->assertOk()
+        ->assertInertia(fn ($page) => $page
+            ->has('tasks.data', 1)
+            ->where('query.errors', ['Unknown filter "owner:". Try list:, tag:, is:, priority: or due:.'])
+            ->has('query.keys.list')
+        );
+});
+
+test('search results are ranked by relevance and include list title matches', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create(['title' => 'Errands']);
+    $budget = TaskList::factory()->for($user)->create(['title' => 'Budget']);
+
+    $inDescription = Task::factory()->for($list, 'list')->create(['title' => 'Call the bank', 'description' => 'Ask about the budget']);
+    $inTitle = Task::factory()->for($list, 'list')->create(['title' => 'Budget review', 'description' => 'Monthly']);
+    $inList = Task::factory()->for($budget, 'list')->create(['title' => 'Pay rent', 'description' => 'Before the 1st']);
+    Task::factory()->for($list, 'list')->create(['title' => 'Buy milk', 'description' => 'Oat']);
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['search' => 'budget']))
+        ->assertInertia(fn ($page) => $page
+            ->has('tasks.data', 3)
+            ->where('tasks.data.0.id', $inTitle->id)
+            ->where('filters.sort', 'relevance')
+            ->where('query.words', ['budget'])
+        );
+
+    expect(searchTitles($user, 'budget'))->toEqualCanonicalizing([
+        $inDescription->title, $inTitle->title, $inList->title,
+    ]);
+});
+
+test('search matches word prefixes and stems', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+    Task::factory()->for($list, 'list')->create(['title' => 'Quarterly reports']);
+    Task::factory()->for($list, 'list')->create(['title' => 'Reporting dashboard']);
+    Task::factory()->for($list, 'list')->create(['title' => 'Groceries']);
+
+    expect(searchTitles($user, 'quart'))->toBe(['Quarterly reports'])
+        ->and(searchTitles($user, 'report'))->toBe(['Quarterly reports', 'Reporting dashboard']);
+});
+
+test('the search index follows edits to tasks and lists', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create(['title' => 'Inbox']);
+    $task = Task::factory()->for($list, 'list')->create(['title' => 'Draft agenda']);
+
+    $task->update(['title' => 'Send minutes']);
+    $list->update(['title' => 'Committee']);
+
+    expect(searchTitles($user, 'agenda'))->toBe([])
+        ->and(searchTitles($user, 'minutes'))->toBe(['Send minutes'])
+        ->and(searchTitles($user, 'committee'))->toBe(['Send minutes']);
+});
+
+test('relevance falls back to the custom order when there is nothing to rank', function () {
+    $user = User::factory()->create();
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['sort' => 'relevance', 'search' => 'is:open']))
+        ->assertInertia(fn ($page) => $page
+            ->where('filters.sort', 'manual')
+            ->where('filters.direction', 'asc')
+        );
+});
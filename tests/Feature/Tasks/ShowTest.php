@@ -0,0 +1,34 @@
+<?php
+
+use App\Models\User;
+
+test('the task page shows the task with its list, tags and checklist', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user, ['title' => 'Quarterly report']);
+    $task->checklistItems()->create(['title' => 'Gather numbers']);
+
+    $this->actingAs($user)
+        ->get(route('tasks.show', $task))
+        ->assertOk()
+        ->assertInertia(fn ($page) => $page
+            ->component('Tasks/Show')
+            ->where('task.id', $task->id)
+            ->where('task.title', 'Quarterly report')
+            ->where('task.list.id', $task->list_id)
+            ->has('task.tags', 0)
+            ->has('task.checklist_items', 1)
+            ->where('task.completed_occurrences_count', 0)
+        );
+});
+
+test('deleting a task from its page returns to the task index', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user);
+
+    $this->actingAs($user)
+        ->from(route('tasks.show', $task))
+        ->delete(route('tasks.destroy', $task))
+        ->assertRedirect(route('tasks.index'));
+
+    $this->assertSoftDeleted($task);
+});
@@ -0,0 +1,113 @@
+<?php
+
+use App\Models\Task;
+use App\Models\TaskList;
+use App\Models\User;
+
+test('tasks can be sorted by due date with undated tasks last', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+    $undated = Task::factory()->for($list, 'list')->create();
+    $later = Task::factory()->for($list, 'list')->create(['due_date' => '2026-11-02']);
+    $sooner = Task::factory()->for($list, 'list')->create(['due_date' => '2026-11-01']);
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['sort' => 'due_date']))
+        ->assertInertia(fn ($page) => $page
+            ->where('tasks.data.0.id', $sooner->id)
+            ->where('tasks.data.1.id', $later->id)
+            ->where('tasks.data.2.id', $undated->id)
+            ->where('filters.sort', 'due_date')
+            ->where('filters.direction', 'asc')
+        );
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['sort' => 'due_date', 'direction' => 'desc']))
+        ->assertInertia(fn ($page) => $page
+            ->where('tasks.data.0.id', $later->id)
+            ->where('tasks.data.1.id', $sooner->id)
+            ->where('tasks.data.2.id', $undated->id)
+            ->where('filters.direction', 'desc')
+        );
+});
+
+test('tasks can be sorted by title in either direction', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+
+    foreach (['Bravo', 'Charlie', 'Alpha'] as $title) {
+        Task::factory()->for($list, 'list')->create(['title' => $title]);
+    }
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['sort' => 'title']))
+        ->assertInertia(fn ($page) => $page
+            ->where('tasks.data.0.title', 'Alpha')
+            ->where('tasks.data.2.title', 'Charlie')
+        );
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['sort' => 'title', 'direction' => 'desc']))
+        ->assertInertia(fn ($page) => $page
+            ->where('tasks.data.0.title', 'Charlie')
+            ->where('tasks.data.2.title', 'Alpha')
+        );
+});
+
+test('tasks can be sorted by list and completion', function () {
+    $user = User::factory()->create();
+    $work = TaskList::factory()->for($user)->create(['title' => 'Work']);
+    $home = TaskList::factory()->for($user)->create(['title' => 'Home']);
+    $done = Task::factory()->for($work, 'list')->completed()->create();
+    $open = Task::factory()->for($home, 'list')->create();
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['sort' => 'list']))
+        ->assertInertia(fn ($page) => $page
+            ->where('tasks.data.0.id', $open->id)
+            ->where('tasks.data.1.id', $done->id)
+        );
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['sort' => 'completion', 'direction' => 'desc']))
+        ->assertInertia(fn ($page) => $page
+            ->where('tasks.data.0.id', $done->id)
+            ->where('tasks.data.1.id', $open->id)
+        );
+});
+
+test('tasks can be sorted by when they were last updated', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+    $stale = Task::factory()->for($list, 'list')->create(['updated_at' => now()->subDay()]);
+    $fresh = Task::factory()->for($list, 'list')->create(['updated_at' => now()->subWeek()]);
+
+    $fresh->touch();
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['sort' => 'updated']))
+        ->assertInertia(fn ($page) => $page
+            ->where('tasks.data.0.id', $fresh->id)
+            ->where('tasks.data.1.id', $stale->id)
+            ->where('filters.direction', 'desc')
+        );
+});
+
+test('the sort and direction are validated', function () {
+    $user = User::factory()->create();
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['sort' => 'password', 'direction' => 'sideways']))
+        ->assertSessionHasErrors(['sort', 'direction']);
+});
+
+test('the custom order is used when no sort is given', function () {
+    $user = User::factory()->create();
+
+    $this->actingAs($user)
+        ->get(route('tasks.index'))
+        ->assertInertia(fn ($page) => $page
+            ->where('filters.sort', 'manual')
+            ->where('filters.direction', 'asc')
+        );
+});
@@ -0,0 +1,72 @@
+<?php
+
+use App\Models\Tag;
+use App\Models\Task;
+use App\Models\TaskList;
+use App\Models\User;
+
+test('tags can be attached when creating a task', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+    $tags = Tag::factory()->for($user)->count(2)->create();
+
+    $this->actingAs($user)
+        ->post(route('tasks.store'), [
+            'title' => 'Buy milk',
+            'list_id' => $list->id,
+            'tag_ids' => $tags->pluck('id')->all(),
+        ])
+        ->assertSessionHasNoErrors();
+
+    expect(Task::sole()->tags->pluck('id')->sort()->values()->all())
+        ->toBe($tags->pluck('id')->sort()->values()->all());
+});
+
+test('tags are synced when updating a task', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user);
+    [$old, $new] = Tag::factory()->for($user)->count(2)->create();
+    $task->tags()->attach($old);
+
+    $this->actingAs($user)
+        ->put(route('tasks.update', $task), [
+            'title' => $task->title,
+            'list_id' => $task->list_id,
+            'tag_ids' => [$new->id],
+        ])
+        ->assertSessionHasNoErrors();
+
+    expect($task->tags()->pluck('tags.id')->all())->toBe([$new->id]);
+});
+
+test('another user\'s tags cannot be attached', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user);
+    $foreignTag = Tag::factory()->create();
+
+    $this->actingAs($user)
+        ->put(route('tasks.update', $task), [
+            'title' => $task->title,
+            'list_id' => $task->list_id,
+            'tag_ids' => [$foreignTag->id],
+        ])
+        ->assertSessionHasErrors('tag_ids.0');
+
+    expect($task->tags()->count())->toBe(0);
+});
+
+test('tasks can be filtered by tag', function () {
+    $user = User::factory()->create();
+    $tag = Tag::factory()->for($user)->create();
+    $tagged = taskOwnedBy($user);
+    $tagged->tags()->attach($tag);
+    taskOwnedBy($user);
+
+    $this->actingAs($user)
+        ->get(route('tasks.index', ['tag' => $tag->id]))
+        ->assertInertia(fn ($page) => $page
+            ->has('tasks.data', 1)
+            ->where('tasks.data.0.id', $tagged->id)
+            ->has('tags', 1)
+        );
+});
@@ -0,0 +1,135 @@
+<?php
+
+use App\Models\Tag;
+use App\Models\Task;
+use App\Models\TaskList;
+use App\Models\User;
+use Illuminate\Support\Carbon;
+
+test('a deleted task can be undone', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user);
+
+    $this->actingAs($user)->delete(route('tasks.destroy', $task));
+
+    $this->actingAs($user)
+        ->get(route('tasks.index'))
+        ->assertInertia(fn ($page) => $page
+            ->where('undo.message', 'Task moved to trash.')
+        );
+
+    $this->actingAs($user)
+        ->from(route('tasks.index'))
+        ->post(route('tasks.undo'))
+        ->assertRedirect(route('tasks.index'))
+        ->assertSessionHas('success', 'Change undone.');
+
+    $this->assertNotSoftDeleted($task);
+});
+
+test('completing a task can be undone', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user, ['status' => 'in_progress']);
+
+    $this->actingAs($user)->patch(route('tasks.move', $task), ['status' => 'done']);
+    expect($task->fresh())->is_completed->toBeTrue()->completed_at->not->toBeNull();
+
+    $this->actingAs($user)->post(route('tasks.undo'));
+
+    expect($task->fresh())
+        ->is_completed->toBeFalse()
+        ->status->toBe('in_progress')
+        ->completed_at->toBeNull();
+});
+
+test('moving a task to another list can be undone', function () {
+    $user = User::factory()->create();
+    [$from, $to] = TaskList::factory()->for($user)->count(2)->create();
+    $task = Task::factory()->for($from, 'list')->create(['due_date' => '2026-10-20']);
+
+    $this->actingAs($user)->patch(route('tasks.move', $task), ['list_id' => $to->id]);
+    $this->actingAs($user)->patch(route('tasks.move', $task), ['due_date' => '2026-10-25']);
+
+    $this->actingAs($user)->post(route('tasks.undo'));
+
+    expect($task->fresh())
+        ->list_id->toBe($to->id)
+        ->due_date->toDateString()->toBe('2026-10-20');
+});
+
+test('moving a task to another list inline can be undone', function () {
+    $user = User::factory()->create();
+    [$from, $to] = TaskList::factory()->for($user)->count(2)->create();
+    $task = Task::factory()->for($from, 'list')->create();
+
+    $this->actingAs($user)->patch(route('tasks.update', $task), ['list_id' => $to->id]);
+    $this->actingAs($user)->post(route('tasks.undo'))->assertSessionHas('success', 'Change undone.');
+
+    expect($task->fresh()->list_id)->toBe($from->id);
+});
+
+test('tagging tasks in bulk clears the pending undo', function () {
+    $user = User::factory()->create();
+    $deleted = taskOwnedBy($user);
+    $tagged = taskOwnedBy($user);
+
+    $this->actingAs($user)->delete(route('tasks.destroy', $deleted));
+    $this->actingAs($user)->patch(route('tasks.batch'), [
+        'ids' => [$tagged->id],
+        'action' => 'tag',
+        'tag_id' => Tag::factory()->for($user)->create()->id,
+    ]);
+
+    $this->actingAs($user)
+        ->post(route('tasks.undo'))
+        ->assertSessionHas('error');
+
+    $this->assertSoftDeleted($deleted);
+});
+
+test('undoing the completion of a recurring task removes its next occurrence', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user, [
+        'due_date' => '2026-10-20',
+        'recurrence' => ['frequency' => 'daily'],
+    ]);
+
+    $this->actingAs($user)->patch(route('tasks.move', $task), ['status' => 'done']);
+    expect(Task::where('series_id', $task->fresh()->series_id)->count())->toBe(2);
+
+    $this->actingAs($user)->post(route('tasks.undo'));
+
+    expect(Task::where('series_id', $task->fresh()->series_id)->count())->toBe(1)
+        ->and($task->fresh()->is_completed)->toBeFalse();
+});
+
+test('an operation can only be undone once', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user);
+
+    $this->actingAs($user)->delete(route('tasks.destroy', $task));
+    $this->actingAs($user)->post(route('tasks.undo'));
+
+    $this->actingAs($user)
+        ->post(route('tasks.undo'))
+        ->assertSessionHas('error');
+});
+
+test('undo expires after the window closes', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user);
+
+    $this->actingAs($user)->delete(route('tasks.destroy', $task));
+
+    Carbon::setTestNow(now()->addSeconds(config('tasks.undo_window_seconds') + 1));
+
+    $this->actingAs($user)
+        ->get(route('tasks.index'))
+        ->assertInertia(fn ($page) => $page->where('undo', null));
+
+    $this->actingAs($user)
+        ->post(route('tasks.undo'))
+        ->assertSessionHas('error');
+
+    $this->assertSoftDeleted($task);
+});
@@ -0,0 +1,156 @@
+<?php
+
+use App\Models\Task;
+use App\Models\TaskList;
+use App\Models\User;
+use Illuminate\Support\Carbon;
+
+test('deleting a list moves it and its tasks out of sight into the trash', function () {
+    $user = User::factory()->create();
+    $list = TaskList::factory()->for($user)->create();
+    Task::factory()->for($list, 'list')->count(2)->create();
+
+    $this->actingAs($user)
+        ->delete(route('lists.destroy', $list))
+        ->assertRedirect(route('lists.index'));
+
+    $this->assertSoftDeleted($list);
+
+    $this->actingAs($user)
+        ->get(route('tasks.index'))
+        ->assertInertia(fn ($page) => $page->has('tasks.data', 0));
+
+    $this->actingAs($user)
+        ->get(route('trash.index'))
+        ->assertInertia(fn ($page) => $page
+            ->component('Trash/Index')
+            ->has('lists', 1)
+            ->where('lists.0.id', $list->id)
+            ->where('lists.0.tasks_count', 2)
+            ->where('retentionDays', 30)
+        );
+});
+
+test('the trash only contains the user\'s own deleted tasks', function () {
+    $user = User::factory()->create();
+    $trashed = taskOwnedBy($user);
+    $trashed->delete();
+    taskOwnedBy($user);
+    taskOwnedBy(User::factory()->create())->delete();
+
+    $this->actingAs($user)
+        ->get(route('trash.index'))
+        ->assertInertia(fn ($page) => $page
+            ->has('tasks', 1)
+            ->where('tasks.0.id', $trashed->id)
+        );
+});
+
+test('trashed tasks and lists can be restored', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user);
+    $list = TaskList::factory()->for($user)->create();
+    $task->delete();
+    $list->delete();
+
+    $this->actingAs($user)
+        ->patch(route('trash.tasks.restore', $task))
+        ->assertSessionHasNoErrors();
+
+    $this->actingAs($user)
+        ->patch(route('trash.lists.restore', $list))
+        ->assertSessionHasNoErrors();
+
+    $this->assertNotSoftDeleted($task);
+    $this->assertNotSoftDeleted($list);
+});
+
+test('trashed items can be purged permanently', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user);
+    $list = TaskList::factory()->for($user)->create();
+    $listTask = Task::factory()->for($list, 'list')->create();
+    $task->delete();
+    $list->delete();
+
+    $this->actingAs($user)->delete(route('trash.tasks.purge', $task));
+    $this->actingAs($user)->delete(route('trash.lists.purge', $list));
+
+    $this->assertModelMissing($task);
+    $this->assertModelMissing($list);
+    $this->assertModelMissing($listTask);
+});
+
+test('emptying the trash only purges the user\'s own items', function () {
+    $user = User::factory()->create();
+    $own = taskOwnedBy($user);
+    $foreign = taskOwnedBy(User::factory()->create());
+    $own->delete();
+    $foreign->delete();
+
+    $this->actingAs($user)->delete(route('trash.empty'));
+
+    $this->assertModelMissing($own);
+    $this->assertSoftDeleted($foreign);
+});
+
+test('items that are not in the trash cannot be purged', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user);
+
+    $this->actingAs($user)
+        ->delete(route('trash.tasks.purge', $task))
+        ->assertNotFound();
+
+    $this->assertModelExists($task);
+});
+
+test('users cannot restore or purge another user\'s trash', function () {
+    $task = taskOwnedBy(User::factory()->create());
+    $list = TaskList::factory()->create();
+    $task->delete();
+    $list->delete();
+
+    $this->actingAs(User::factory()->create())
+        ->patch(route('trash.tasks.restore', $task))
+        ->assertForbidden();
+
+    $this->actingAs(User::factory()->create())
+        ->delete(route('trash.lists.purge', $list))
+        ->assertForbidden();
+
+    $this->assertSoftDeleted($task);
+    $this->assertSoftDeleted($list);
+});
+
+test('tasks cannot be moved into a trashed list', function () {
+    $user = User::factory()->create();
+    $task = taskOwnedBy($user);
+    $list = TaskList::factory()->for($user)->create();
+    $list->delete();
+
+    $this->actingAs($user)
+        ->patch(route('tasks.move', $task), ['list_id' => $list->id])
+        ->assertSessionHasErrors('list_id');
+});
+
+test('items trashed longer than the retention period are pruned', function () {
+    $user = User::factory()->create();
+    $old = taskOwnedBy($user);
+    $recent = taskOwnedBy($user);
+    $oldList = TaskList::factory()->for($user)->create();
+
+    Carbon::setTestNow(now()->subDays(31));
+    $old->delete();
+    $oldList->delete();
+    Carbon::setTestNow();
+
+    $recent->delete();
+
+    $this->artisan('model:prune', ['--model' => [Task::class, TaskList::class]])
+        ->assertSuccessful();
+
+    $this->assertModelMissing($old);
+    $this->assertModelMissing($oldList);
+    $this->assertSoftDeleted($recent);
+});
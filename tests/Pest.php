@@ -1,5 +1,9 @@
 <?php
 
+use App\Models\Task;
+use App\Models\TaskList;
+use App\Models\User;
+
 /*
 |--------------------------------------------------------------------------
 | Test Case
@@ -41,7 +45,9 @@
 |
 */
 
-function something()
+function taskOwnedBy(User $user, array $attributes = []): Task
 {
-    // ..
+    return Task::factory()
+        ->for(TaskList::factory()->for($user), 'list')
+        ->create($attributes);
 }
@@ -0,0 +1,179 @@
+<?php
+
+use App\Support\QuickAdd;
+use Carbon\CarbonImmutable;
+
+/**
+ * Parse a line as if today were Wednesday 21 October 2026.
+ */
+function quickAdd(string $input, array $lists = [1 => 'Home', 2 => 'Work', 3 => 'Home projects']): QuickAdd
+{
+    return QuickAdd::parse($input, $lists, CarbonImmutable::parse('2026-10-21'));
+}
+
+test('every field is picked out of a full line', function () {
+    expect(quickAdd('Pay rent tomorrow #Home !high every month')->toArray())->toBe([
+        'title' => 'Pay rent',
+        'due_date' => '2026-10-22',
+        'list_id' => 1,
+        'priority' => 'high',
+        'recurrence' => ['frequency' => 'monthly', 'interval' => 1],
+    ]);
+});
+
+test('a line without any fields is all title', function () {
+    expect(quickAdd('  Water the   plants ')->toArray())->toBe([
+        'title' => 'Water the plants',
+        'due_date' => null,
+        'list_id' => null,
+        'priority' => null,
+        'recurrence' => null,
+    ]);
+});
+
+test('fields may appear anywhere and in any case', function () {
+    $task = quickAdd('!URGENT #work Send the invoice Tomorrow');
+
+    expect($task->title)->toBe('Send the invoice')
+        ->and($task->listId)->toBe(2)
+        ->and($task->priority)->toBe('urgent')
+        ->and($task->dueDate)->toBe('2026-10-22');
+});
+
+test('relative due dates are resolved against today', function (string $phrase, string $expected) {
+    $task = quickAdd("Call the bank {$phrase}");
+
+    expect($task->title)->toBe('Call the bank')
+        ->and($task->dueDate)->toBe($expected);
+})->with([
+    ['today', '2026-10-21'],
+    ['tonight', '2026-10-21'],
+    ['tomorrow', '2026-10-22'],
+    ['tmrw', '2026-10-22'],
+    ['by tomorrow', '2026-10-22'],
+    ['friday', '2026-10-23'],
+    ['on friday', '2026-10-23'],
+    ['wednesday', '2026-10-28'],
+    ['on mon', '2026-10-26'],
+    ['next tue', '2026-10-27'],
+    ['next week', '2026-10-26'],
+    ['next month', '2026-11-01'],
+    ['in 3 days', '2026-10-24'],
+    ['in a week', '2026-10-28'],
+    ['in 2 weeks', '2026-11-04'],
+    ['in 4 months', '2027-02-21'],
+]);
+
+test('calendar dates are recognised in several formats', function (string $phrase, string $expected) {
+    expect(quickAdd("Renew passport {$phrase}")->dueDate)->toBe($expected);
+})->with([
+    ['2026-12-25', '2026-12-25'],
+    ['due 2027-01-04', '2027-01-04'],
+    ['nov 14', '2026-11-14'],
+    ['Nov. 14th', '2026-11-14'],
+    ['14 november', '2026-11-14'],
+    ['on 3rd december', '2026-12-03'],
+    ['oct 21', '2026-10-21'],
+    ['march 3', '2027-03-03'],
+    ['jan 5, 2028', '2028-01-05'],
+]);
+
+test('dates that do not exist stay in the title', function () {
+    $task = quickAdd('Leap day party feb 30');
+
+    expect($task->title)->toBe('Leap day party feb 30')
+        ->and($task->dueDate)->toBeNull();
+});
+
+test('short weekday names need a word in front of them', function () {
+    $task = quickAdd('Book a sat exam');
+
+    expect($task->title)->toBe('Book a sat exam')
+        ->and($task->dueDate)->toBeNull();
+});
+
+test('only the first date is taken', function () {
+    $task = quickAdd('Move the friday standup to monday');
+
+    expect($task->title)->toBe('Move the standup to monday')
+        ->and($task->dueDate)->toBe('2026-10-23');
+});
+
+test('recurrences are recognised', function (string $phrase, array $expected) {
+    $task = quickAdd("Stretch {$phrase}");
+
+    expect($task->title)->toBe('Stretch')
+        ->and($task->recurrence)->toBe($expected);
+})->with([
+    ['every day', ['frequency' => 'daily', 'interval' => 1]],
+    ['daily', ['frequency' => 'daily', 'interval' => 1]],
+    ['every 3 days', ['frequency' => 'daily', 'interval' => 3]],
+    ['every week', ['frequency' => 'weekly', 'interval' => 1]],
+    ['weekly', ['frequency' => 'weekly', 'interval' => 1]],
+    ['every other week', ['frequency' => 'weekly', 'interval' => 2]],
+    ['every 2 months', ['frequency' => 'monthly', 'interval' => 2]],
+    ['monthly', ['frequency' => 'monthly', 'interval' => 1]],
+    ['every monday', ['frequency' => 'weekly', 'interval' => 1, 'weekdays' => [1]]],
+    ['every fri and mon', ['frequency' => 'weekly', 'interval' => 1, 'weekdays' => [1, 5]]],
+    ['every tuesday, thursday & saturday', ['frequency' => 'weekly', 'interval' => 1, 'weekdays' => [2, 4, 6]]],
+    ['every weekday', ['frequency' => 'weekly', 'interval' => 1, 'weekdays' => [1, 2, 3, 4, 5]]],
+    ['every weekend', ['frequency' => 'weekly', 'interval' => 1, 'weekdays' => [0, 6]]],
+    ['every 15th', ['frequency' => 'monthly', 'interval' => 1, 'month_day' => 15]],
+    ['every 1st of the month', ['frequency' => 'monthly', 'interval' => 1, 'month_day' => 1]],
+]);
+
+test('a repeating task without a date starts on its first occurrence', function (string $phrase, string $expected) {
+    expect(quickAdd("Stretch {$phrase}")->dueDate)->toBe($expected);
+})->with([
+    ['every day', '2026-10-21'],
+    ['every month', '2026-10-21'],
+    ['every wednesday', '2026-10-21'],
+    ['every friday', '2026-10-23'],
+    ['every monday', '2026-10-26'],
+    ['every 21st', '2026-10-21'],
+    ['every 1st', '2026-11-01'],
+    ['every 30th', '2026-10-30'],
+]);
+
+test('an explicit date wins over the first occurrence', function () {
+    expect(quickAdd('Pay rent every month on nov 1')->dueDate)->toBe('2026-11-01');
+});
+
+test('the longest matching list title is chosen', function () {
+    expect(quickAdd('Paint the fence #Home projects')->listId)->toBe(3)
+        ->and(quickAdd('Paint the fence #Home')->listId)->toBe(1)
+        ->and(quickAdd('Paint the fence #"home projects"')->listId)->toBe(3);
+});
+
+test('a hash that matches no list stays in the title', function () {
+    $task = quickAdd('Fix issue #42 in #Homework');
+
+    expect($task->title)->toBe('Fix issue #42 in #Homework')
+        ->and($task->listId)->toBeNull();
+});
+
+test('lists are only matched when some are given', function () {
+    $task = quickAdd('Tidy up #Home', []);
+
+    expect($task->title)->toBe('Tidy up #Home')
+        ->and($task->listId)->toBeNull();
+});
+
+test('only known priorities are taken', function () {
+    expect(quickAdd('Reply !low')->priority)->toBe('low')
+        ->and(quickAdd('Wow!')->priority)->toBeNull()
+        ->and(quickAdd('Deploy !asap')->title)->toBe('Deploy !asap');
+});
+
+test('punctuation left behind is tidied up', function () {
+    expect(quickAdd('Call mom tomorrow, then dad')->title)->toBe('Call mom, then dad')
+        ->and(quickAdd('Call mom tomorrow.')->title)->toBe('Call mom.');
+});
+
+test('a line of only fields leaves an empty title', function () {
+    $task = quickAdd('tomorrow #Work !medium');
+
+    expect($task->title)->toBe('')
+        ->and($task->listId)->toBe(2)
+        ->and($task->priority)->toBe('medium');
+});
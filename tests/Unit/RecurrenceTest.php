@@ -0,0 +1,63 @@
+<?php
+
+use App\Support\Recurrence;
+use Carbon\CarbonImmutable;
+
+function nextOccurrence(array $rule, string $from): string
+{
+    return Recurrence::fromArray($rule)
+        ->nextAfter(CarbonImmutable::parse($from))
+        ->toDateString();
+}
+
+test('daily rules advance by the interval', function () {
+    expect(nextOccurrence(['frequency' => 'daily'], '2026-10-19'))->toBe('2026-10-20');
+    expect(nextOccurrence(['frequency' => 'daily', 'interval' => 3], '2026-10-30'))->toBe('2026-11-02');
+});
+
+test('weekly rules without weekdays advance by whole weeks', function () {
+    expect(nextOccurrence(['frequency' => 'weekly', 'interval' => 2], '2026-10-19'))->toBe('2026-11-02');
+});
+
+test('weekly rules land on the next listed weekday', function () {
+    // 2026-10-19 is a Monday.
+    $rule = ['frequency' => 'weekly', 'weekdays' => [1, 3, 5]];
+
+    expect(nextOccurrence($rule, '2026-10-19'))->toBe('2026-10-21');
+    expect(nextOccurrence($rule, '2026-10-23'))->toBe('2026-10-26');
+});
+
+test('weekly rules skip weeks outside the interval', function () {
+    $rule = ['frequency' => 'weekly', 'interval' => 2, 'weekdays' => [1]];
+
+    expect(nextOccurrence($rule, '2026-10-19'))->toBe('2026-11-02');
+});
+
+test('monthly rules keep the day of the month', function () {
+    expect(nextOccurrence(['frequency' => 'monthly'], '2026-10-15'))->toBe('2026-11-15');
+    expect(nextOccurrence(['frequency' => 'monthly', 'interval' => 3], '2026-10-15'))->toBe('2027-01-15');
+});
+
+test('monthly rules use a later day in the same month first', function () {
+    expect(nextOccurrence(['frequency' => 'monthly', 'month_day' => 25], '2026-10-19'))->toBe('2026-10-25');
+});
+
+test('monthly rules are clamped to short months', function () {
+    expect(nextOccurrence(['frequency' => 'monthly', 'month_day' => 31], '2027-01-31'))->toBe('2027-02-28');
+    expect(nextOccurrence(['frequency' => 'monthly', 'month_day' => 31], '2027-02-28'))->toBe('2027-03-31');
+});
+
+test('rules are normalised when converted back to an array', function () {
+    $rule = Recurrence::fromArray([
+        'frequency' => 'weekly',
+        'interval' => '0',
+        'weekdays' => ['5', 1, 1],
+        'month_day' => 12,
+    ]);
+
+    expect($rule->toArray())->toBe([
+        'frequency' => 'weekly',
+        'interval' => 1,
+        'weekdays' => [1, 5],
+    ]);
+});
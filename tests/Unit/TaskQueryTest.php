@@ -0,0 +1,68 @@
+<?php
+
+use App\Support\TaskQuery;
+
+test('free words and quoted phrases become text terms', function () {
+    $query = TaskQuery::parse('invoice "quarterly report"');
+
+    expect($query->errors)->toBe([])
+        ->and(array_column($query->terms, 'value'))->toBe(['invoice', 'quarterly report'])
+        ->and(array_column($query->terms, 'key'))->toBe([null, null]);
+});
+
+test('key value terms are parsed with their operators', function () {
+    $query = TaskQuery::parse('list:Work due:<2026-11-01 is:open tag:urgent priority:>=high');
+
+    expect($query->errors)->toBe([])
+        ->and($query->terms)->toBe([
+            ['key' => 'list', 'operator' => '=', 'value' => 'Work', 'negated' => false],
+            ['key' => 'due', 'operator' => '<', 'value' => '2026-11-01', 'negated' => false],
+            ['key' => 'is', 'operator' => '=', 'value' => 'open', 'negated' => false],
+            ['key' => 'tag', 'operator' => '=', 'value' => 'urgent', 'negated' => false],
+            ['key' => 'priority', 'operator' => '>=', 'value' => 'high', 'negated' => false],
+        ]);
+});
+
+test('values can be quoted and terms negated', function () {
+    $query = TaskQuery::parse('list:"Home projects" -tag:someday -draft');
+
+    expect($query->terms)->toBe([
+        ['key' => 'list', 'operator' => '=', 'value' => 'Home projects', 'negated' => false],
+        ['key' => 'tag', 'operator' => '=', 'value' => 'someday', 'negated' => true],
+        ['key' => null, 'operator' => '=', 'value' => 'draft', 'negated' => true],
+    ]);
+});
+
+test('hyphenated words are not mistaken for negation', function () {
+    expect(TaskQuery::parse('follow-up')->terms)->toBe([
+        ['key' => null, 'operator' => '=', 'value' => 'follow-up', 'negated' => false],
+    ]);
+});
+
+test('keys are case insensitive', function () {
+    expect(TaskQuery::parse('IS:open')->terms[0]['key'])->toBe('is');
+});
+
+test('syntax errors are reported while valid terms are kept', function (string $input, string $error) {
+    $query = TaskQuery::parse("report {$input}");
+
+    expect($query->errors)->toBe([$error])
+        ->and(array_column($query->terms, 'value'))->toBe(['report']);
+})->with([
+    'unknown key' => ['owner:me', 'Unknown filter "owner:". Try list:, tag:, is:, priority: or due:.'],
+    'missing value' => ['list:', '"list:" needs a value.'],
+    'unclosed quote' => ['"quarterly', 'Missing closing quote after "quarterly".'],
+    'unknown state' => ['is:sleeping', '"is:sleeping" is not supported. Use is:open, is:done, is:overdue or is:recurring.'],
+    'unknown priority' => ['priority:>huge', '"huge" is not a priority. Use none, low, medium, high, urgent.'],
+    'impossible date' => ['due:2026-02-30', '"2026-02-30" is not a due date. Use a date like 2026-11-01, today, tomorrow or one of overdue, today, week, upcoming, none.'],
+    'compared window' => ['due:<week', '"week" is not a due date. Use a date like 2026-11-01, today, tomorrow or one of overdue, today, week, upcoming, none.'],
+]);
+
+test('relative and named due dates are accepted', function () {
+    expect(TaskQuery::parse('due:today due:>=tomorrow due:none due:overdue')->errors)->toBe([]);
+});
+
+test('an empty search has no terms', function () {
+    expect(TaskQuery::parse('')->terms)->toBe([])
+        ->and(TaskQuery::parse(null)->errors)->toBe([]);
+});